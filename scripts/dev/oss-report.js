@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+
+/**
+ * OSS VAT Report Export
+ *
+ * Downloads the quarterly One-Stop Shop report from the admin API of a
+ * running store and saves the CSV for the OSS portal. Prints the totals and
+ * any orders that were left out and need attention before filing.
+ *
+ * Usage: npm run ossReport [-- 2026-Q3] [-- --out report.csv]
+ * Defaults to the previous quarter and to NEXT_PUBLIC_API_URL, or
+ * http://localhost:3000/api when it is not set.
+ */
+
+const fs = require('fs');
+require('dotenv').config({ path: '.env' });
+
+// Validate environment
+if (!process.env.ADMIN_API_TOKEN) {
+  console.error('❌ ADMIN_API_TOKEN environment variable is required');
+  console.error('Please add it to your .env file');
+  process.exit(1);
+}
+
+const args = process.argv.slice(2);
+const outIndex = args.indexOf('--out');
+const output = outIndex >= 0 ? args[outIndex + 1] : undefined;
+const quarter = args.find((arg, index) => /^\d{4}-Q[1-4]$/.test(arg) && index !== outIndex + 1);
+const apiUrl = (process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3000/api').replace(/\/$/, '');
+
+async function fetchReport(format) {
+  const params = new URLSearchParams({ format });
+  if (quarter) params.set('quarter', quarter);
+
+  const response = await fetch(`${apiUrl}/admin/oss-report?${params}`, {
+    headers: { Authorization: `Bearer ${process.env.ADMIN_API_TOKEN}` },
+  });
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`OSS report request failed with ${response.status}: ${body}`);
+  }
+  return format === 'csv' ? response.text() : response.json();
+}
+
+async function main() {
+  try {
+    console.log(`🔄 Building OSS report${quarter ? ` for ${quarter}` : ''}...`);
+    const report = await fetchReport('json');
+    const csv = await fetchReport('csv');
+
+    const file = output || `oss-${report.quarter}.csv`;
+    fs.writeFileSync(file, csv);
+
+    console.log(`✅ ${report.quarter}: ${report.orders} orders, ${report.refunds} refunds`);
+    console.log(`   Taxable amount: ${report.totals.taxable.toFixed(2)} EUR`);
+    console.log(`   VAT due:        ${report.totals.vat.toFixed(2)} EUR`);
+    console.log(`📄 Saved ${report.rows.length} rows to ${file}`);
+
+    if (report.skipped.length > 0) {
+      console.log(`\n⚠️  ${report.skipped.length} orders were left out and need to be added by hand:`);
+      report.skipped.forEach(({ invoiceNumber, reason }) => console.log(`   - ${invoiceNumber}: ${reason}`));
+    }
+  } catch (error) {
+    console.error('❌ Error exporting OSS report:', error.message);
+    process.exit(1);
+  }
+}
+
+main();
@@ -1,5 +1,6 @@
 import React from 'react';
 import ColorSelector from './ColorSelector';
+import { pricesIncludeVat } from '../lib/vat';
 
 interface ColorSizeSelectorProps {
   variants: any[];
@@ -101,6 +102,9 @@ const ColorSizeSelector: React.FC<ColorSizeSelectorProps> = ({
            </div>
            <div className="text-lg font-semibold text-blue-600 dark:text-blue-400">
              €{getCurrentPrice()}
+             {pricesIncludeVat() && (
+               <span className="ml-1 text-xs font-normal text-gray-500 dark:text-gray-400">incl. VAT</span>
+             )}
            </div>
          </div>
        </div>
@@ -0,0 +1,37 @@
+import React from 'react';
+
+import useShippingCountry from '../hooks/useShippingCountry';
+import { getCountryName } from '../lib/country-names';
+import { formatDeliveryDate, getDeliveryDeadlineNotice, type DeliveryDeadlineNotice } from '../lib/delivery-dates';
+
+/**
+ * DeliveryDeadlineBanner Component
+ *
+ * Site-wide notice such as "Order by Dec 14 for Christmas delivery to
+ * Belgium", shown while an order cutoff from `delivery-config.ts` is coming
+ * up. The cutoff depends on the shipping zone of the visitor's country, so
+ * nothing is shown until a country is known.
+ */
+const DeliveryDeadlineBanner: React.FC = () => {
+  const [country] = useShippingCountry();
+  const [notice, setNotice] = React.useState<DeliveryDeadlineNotice | undefined>();
+
+  // Computed after mount so the server-rendered page does not depend on the date
+  React.useEffect(() => {
+    setNotice(country ? getDeliveryDeadlineNotice(country) : undefined);
+  }, [country]);
+
+  if (!notice) {
+    return null;
+  }
+
+  const countryName = getCountryName(country);
+
+  return (
+    <div className="bg-blue-600 text-white text-sm text-center py-2 px-4" role="status">
+      Order by {formatDeliveryDate(notice.orderBy)} for {notice.name} delivery to {countryName}
+    </div>
+  );
+};
+
+export default DeliveryDeadlineBanner;
@@ -4,6 +4,7 @@ import useWishlistState from "../hooks/useWishlistState";
 import useSnipcartCount from "../hooks/useSnipcartCount";
 import { useTheme } from "../context/theme";
 import ThemeToggle from "./ThemeToggle";
+import DeliveryDeadlineBanner from "./DeliveryDeadlineBanner";
 
 const Layout = ({ children }: { children: React.ReactNode }) => {
   const { hasItems } = useWishlistState();
@@ -13,6 +14,7 @@ const Layout = ({ children }: { children: React.ReactNode }) => {
 
   return (
     <>
+      <DeliveryDeadlineBanner />
       <header className="py-6 md:py-12 bg-white dark:bg-gray-900 transition-colors duration-200">
         <div className="max-w-6xl mx-auto px-6">
           <div className="flex items-center justify-between">
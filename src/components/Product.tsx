@@ -113,6 +113,7 @@ const Product: React.FC<ProductProps> = ({ product }) => {
               data-item-id={activeVariantExternalId}
               data-item-price={activeVariant?.retail_price ? parseFloat(activeVariant.retail_price) : 0}
               data-item-url={`/product/${id}`}
+              data-item-categories={category || ''}
               data-item-description={`${name} - ${activeVariant?.color || ''} ${activeVariant?.size || ''}`}
               data-item-image={activeVariantFile?.preview_url && activeVariantFile.preview_url.trim() !== '' ? activeVariantFile.preview_url : ''}
               data-item-name={`${name} (${activeVariant?.color || ''} ${activeVariant?.size || ''})`}
@@ -140,6 +141,7 @@ const Product: React.FC<ProductProps> = ({ product }) => {
                 data-item-id={variant.external_id}
                 data-item-price={variant.retail_price ? parseFloat(variant.retail_price) : 0}
                 data-item-url={`/product/${id}`}
+                data-item-categories={category || ''}
                 data-item-description={`${name} - ${variant.color || ''} ${variant.size || ''}`}
                 data-item-image={variantFile?.preview_url && variantFile.preview_url.trim() !== '' ? variantFile.preview_url : ''}
                 data-item-name={`${name} (${variant.color || ''} ${variant.size || ''})`}
@@ -0,0 +1,149 @@
+import React from 'react';
+
+import useShippingCountry from '../hooks/useShippingCountry';
+import { getCountryName, listCountries } from '../lib/country-names';
+import { formatDeliveryWindow } from '../lib/delivery-dates';
+import { isDestinationAllowed } from '../lib/destination-policy';
+import { DEFAULT_CURRENCY } from '../lib/retail-costs';
+import type { DatedShippingRate } from '../lib/shipping-quote';
+
+interface ShippingEstimatorProps {
+  variantExternalId: string;
+  /** Printful sync product ID, for per-product destination restrictions. */
+  productId?: string;
+  /** Unit price, so free shipping thresholds are taken into account. */
+  price?: number;
+  currency?: string;
+  quantity?: number;
+}
+
+type EstimateState =
+  | { status: 'idle' | 'loading' | 'error' | 'restricted' }
+  | { status: 'ready'; rate?: DatedShippingRate };
+
+// Every country, so the destination policy can explain where an item does not ship
+const COUNTRIES = listCountries();
+
+/**
+ * Formats the delivery window of a rate, e.g. "Dec 3 – Dec 8", or "in 4-7
+ * days" when no dates are known
+ */
+function formatDeliveryDays(rate: DatedShippingRate): string | undefined {
+  if (rate.delivery) return formatDeliveryWindow(rate.delivery);
+
+  const { minDeliveryDays: min, maxDeliveryDays: max } = rate;
+  if (min && max) return min === max ? `in ${max} days` : `in ${min}-${max} days`;
+  if (max || min) return `in ${max || min} days`;
+  return undefined;
+}
+
+/**
+ * ShippingEstimator Component
+ *
+ * Shows the cheapest shipping price and delivery window for the selected
+ * variant before it is added to the cart, e.g. "Ships to Belgium from €4.99,
+ * arrives Dec 3 – Dec 8". The chosen country is remembered in local storage.
+ * Products that cannot ship to the country are flagged without asking the
+ * server (see `destination-policy.ts`).
+ */
+const ShippingEstimator: React.FC<ShippingEstimatorProps> = ({
+  variantExternalId,
+  productId,
+  price = 0,
+  currency = DEFAULT_CURRENCY,
+  quantity = 1,
+}) => {
+  const [country, setCountry] = useShippingCountry();
+  const [estimate, setEstimate] = React.useState<EstimateState>({ status: 'idle' });
+
+  React.useEffect(() => {
+    if (!country || !variantExternalId) {
+      setEstimate({ status: 'idle' });
+      return;
+    }
+    if (!isDestinationAllowed(country, productId)) {
+      setEstimate({ status: 'restricted' });
+      return;
+    }
+
+    const controller = new AbortController();
+    const params = new URLSearchParams({
+      variantId: variantExternalId,
+      country,
+      quantity: String(quantity),
+      currency,
+      subtotal: String(price * quantity),
+    });
+
+    setEstimate({ status: 'loading' });
+    fetch(`/api/shipping/estimate?${params}`, { signal: controller.signal })
+      .then(response => (response.ok ? response.json() : Promise.reject(new Error(response.statusText))))
+      .then((data: { rates: DatedShippingRate[] }) => setEstimate({ status: 'ready', rate: data.rates[0] }))
+      .catch(error => {
+        if (error?.name !== 'AbortError') setEstimate({ status: 'error' });
+      });
+
+    return () => controller.abort();
+  }, [country, variantExternalId, productId, quantity, currency, price]);
+
+  const countryName = getCountryName(country);
+  const formatPrice = (amount: number) =>
+    new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+
+  let message: string;
+  switch (estimate.status) {
+    case 'idle':
+      message = 'Select your country to see shipping costs and delivery times';
+      break;
+    case 'loading':
+      message = 'Calculating shipping...';
+      break;
+    case 'error':
+      message = 'Shipping costs are calculated at checkout';
+      break;
+    case 'restricted':
+      message = `Not available in your country (${countryName})`;
+      break;
+    default: {
+      const { rate } = estimate;
+      if (!rate) {
+        message = `We currently don't ship this item to ${countryName}`;
+        break;
+      }
+      const days = formatDeliveryDays(rate);
+      message = `Ships to ${countryName} ${rate.cost === 0 ? 'for free' : `from ${formatPrice(rate.cost)}`}`;
+      if (days) message += `, arrives ${days}`;
+    }
+  }
+
+  return (
+    <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-4 space-y-2">
+      <label htmlFor="shipping-estimate-country" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        Shipping to
+      </label>
+      <select
+        id="shipping-estimate-country"
+        value={country}
+        onChange={event => setCountry(event.target.value)}
+        className="w-full rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-gray-100 py-2 px-3 focus:outline-none focus:ring-2 focus:ring-blue-500"
+      >
+        <option value="">Select a country</option>
+        {COUNTRIES.map(({ code, name }) => (
+          <option key={code} value={code}>
+            {name}
+          </option>
+        ))}
+      </select>
+      <p
+        className={`text-sm ${
+          estimate.status === 'restricted' ? 'text-red-600 dark:text-red-400' : 'text-gray-600 dark:text-gray-400'
+        }`}
+        aria-live="polite"
+      >
+        {message}
+      </p>
+    </div>
+  );
+};
+
+export default ShippingEstimator;
@@ -0,0 +1,43 @@
+import React, { createContext, useEffect } from 'react';
+
+import useLocalStorage from '../hooks/useLocalStorage';
+import { COUNTRY_NAMES } from '../lib/country-names';
+
+interface ShippingCountryContextType {
+  /** ISO country code, '' when unknown. */
+  country: string;
+  setCountry: (country: string) => void;
+}
+
+export const ShippingCountryContext = createContext<ShippingCountryContextType | undefined>(undefined);
+
+/**
+ * Guesses the visitor's country from the browser language, e.g. nl-BE -> BE
+ */
+function guessCountry(): string {
+  if (typeof navigator === 'undefined') return '';
+  const region = navigator.language?.split('-')[1]?.toUpperCase();
+  return region && COUNTRY_NAMES[region] ? region : '';
+}
+
+/**
+ * Holds the country the visitor last picked for shipping estimates, so the
+ * product page estimator and the delivery deadline banner always agree. On a
+ * first visit it is guessed from the browser language.
+ */
+export function ShippingCountryProvider({ children }: { children: React.ReactNode }) {
+  const [country, setCountry] = useLocalStorage('shipping-estimate-country', '');
+
+  useEffect(() => {
+    if (!country) {
+      const guessed = guessCountry();
+      if (guessed) setCountry(guessed);
+    }
+  }, [country, setCountry]);
+
+  return (
+    <ShippingCountryContext.Provider value={{ country, setCountry }}>
+      {children}
+    </ShippingCountryContext.Provider>
+  );
+}
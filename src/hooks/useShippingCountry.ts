@@ -0,0 +1,16 @@
+import { useContext } from 'react';
+
+import { ShippingCountryContext } from '../context/shipping-country';
+
+/**
+ * The country the visitor last picked for shipping estimates, shared through
+ * `ShippingCountryProvider`
+ * @returns The ISO country code ('' when unknown) and a setter
+ */
+export default function useShippingCountry(): [string, (country: string) => void] {
+  const context = useContext(ShippingCountryContext);
+  if (!context) {
+    throw new Error('useShippingCountry must be used within a ShippingCountryProvider');
+  }
+  return [context.country, context.setCountry];
+}
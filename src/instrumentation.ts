@@ -0,0 +1,14 @@
+/**
+ * Server startup checks
+ *
+ * Next.js calls `register` once when a server instance starts. The local
+ * stores (order ledger, retry queue, invoices) cannot work without a writable
+ * DATA_DIR, so a misconfigured deployment fails here instead of on the first
+ * order.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { getWritableDataDir } = await import('./lib/json-store');
+    getWritableDataDir();
+  }
+}
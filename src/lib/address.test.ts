@@ -0,0 +1,57 @@
+import { normalizeAddress, normalizePostalCode } from './address';
+
+function check(label: string, success: boolean): boolean {
+  console.log(`${label}: ${success ? '✅' : '❌'}`);
+  return success;
+}
+
+// Test separators, spacing and country prefixes
+export function testNormalizePostalCode() {
+  console.log('Testing postal code normalization...\n');
+
+  const results = [
+    check('Polish code without dash', normalizePostalCode('00950', 'PL') === '00-950'),
+    check('Portuguese code without dash', normalizePostalCode('1000001', 'PT') === '1000-001'),
+    check('Portuguese code keeps its dash', normalizePostalCode('1000-001', 'PT') === '1000-001'),
+    check('Belgian prefix is stripped', normalizePostalCode('B-1000', 'BE') === '1000'),
+    check('Luxembourg prefix is stripped', normalizePostalCode('l-1234', 'LU') === '1234'),
+    check('Luxembourg prefix without dash', normalizePostalCode('L1234', 'LU') === '1234'),
+    check('Dutch code gets its space', normalizePostalCode('1012ab', 'NL') === '1012 AB'),
+    check('British code gets its space', normalizePostalCode(' sw1a1aa ', 'GB') === 'SW1A 1AA'),
+    check('invalid code is returned as entered', normalizePostalCode('0095', 'PL') === '0095'),
+    check('empty code', normalizePostalCode('  ', 'PL') === undefined),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Test postal code errors of whole addresses
+export function testPostalCodeValidation() {
+  console.log('Testing postal code validation...\n');
+
+  const validate = (country: string, postalCode: string) => normalizeAddress({ country, postalCode });
+  const polish = validate('PL', '00950');
+  const tooShort = validate('PL', '0095');
+  const prefixOnly = validate('BE', 'B-');
+
+  const results = [
+    check('normalized code is accepted', polish.success && polish.address.zip === '00-950'),
+    check('Belgian code with prefix is accepted', validate('BE', 'B-1000').success),
+    check(
+      'short code is rejected',
+      !tooShort.success && tooShort.errors[0].message.startsWith('"0095" is not a valid postal code for Poland'),
+    ),
+    check('prefix without code is rejected', !prefixOnly.success),
+    check('wrong prefix is rejected', !validate('BE', 'L-1000').success),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Run tests if this file is executed directly
+if (typeof window === 'undefined' && require.main === module) {
+  testNormalizePostalCode();
+  testPostalCodeValidation();
+}
@@ -0,0 +1,208 @@
+/**
+ * Address Normalization
+ *
+ * Shared by shipping rates, tax calculation and order creation so Printful
+ * always receives the same cleaned-up address. Nothing is guessed: a missing
+ * state or malformed postal code is reported as a field-level error instead
+ * of being replaced with a default.
+ */
+
+import { getCountryRule } from './countries';
+import type { SnipcartAddress } from '../types';
+
+export type AddressField = 'name' | 'address1' | 'city' | 'province' | 'country' | 'postalCode' | 'phone';
+
+export interface AddressFieldError {
+  field: AddressField;
+  message: string;
+}
+
+export interface NormalizedAddress {
+  name?: string;
+  company?: string;
+  address1?: string;
+  address2?: string;
+  city?: string;
+  stateCode?: string;
+  countryCode: string;
+  zip?: string;
+  phone?: string;
+}
+
+/** The address fields Printful accepts in a `recipient`. */
+export interface PrintfulAddress {
+  name?: string;
+  company?: string;
+  address1?: string;
+  address2?: string;
+  city?: string;
+  state_code?: string;
+  country_code: string;
+  zip?: string;
+  phone?: string;
+}
+
+export type AddressValidationResult =
+  | { success: true; address: NormalizedAddress }
+  | { success: false; errors: AddressFieldError[] };
+
+export interface NormalizeAddressOptions {
+  /**
+   * Require everything needed to ship a parcel (name, street, city).
+   * Rate and tax quotes only need the fields that affect the price.
+   */
+  requireFullAddress?: boolean;
+}
+
+// E.164 allows at most 15 digits; shorter than 6 cannot be a real number
+const PHONE_PATTERN = /^\+?\d{6,15}$/;
+
+/**
+ * Trims a value and collapses runs of whitespace
+ * @returns The cleaned value, or undefined if nothing is left
+ */
+function clean(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const cleaned = value.replace(/\s+/g, ' ').trim();
+  return cleaned || undefined;
+}
+
+/**
+ * Normalises a phone number to digits with an optional leading `+`
+ * @param phone - Phone number as entered by the customer
+ * @returns The normalised number, or undefined when empty
+ */
+export function normalizePhone(phone: unknown): string | undefined {
+  const value = clean(phone);
+  if (!value) return undefined;
+
+  const international = value.startsWith('+') || value.startsWith('00');
+  const digits = value.replace(/\D/g, '').replace(/^00/, '');
+  return international ? `+${digits}` : digits;
+}
+
+/**
+ * Normalises a postal code: upper case, single spaces, no country prefix and
+ * canonical separators for countries that have them. A code that does not
+ * match the country's pattern even then is returned as entered, so the
+ * error shows what the customer typed.
+ * @param postalCode - Postal code as entered by the customer
+ * @param countryCode - ISO 3166-1 alpha-2 country code
+ */
+export function normalizePostalCode(postalCode: unknown, countryCode: string): string | undefined {
+  const value = clean(postalCode)?.toUpperCase();
+  if (!value) return undefined;
+
+  const rule = getCountryRule(countryCode);
+  if (!rule?.postalCode) return value;
+
+  const unprefixed = rule.postalCodePrefix
+    ? value.replace(new RegExp(`^${rule.postalCodePrefix}[- ]?(?=\\d)`), '')
+    : value;
+  const formatted = rule.formatPostalCode ? rule.formatPostalCode(unprefixed) : unprefixed;
+  return rule.postalCode.test(formatted) ? formatted : value;
+}
+
+/**
+ * Picks the customer name from the fields Snipcart may fill in
+ */
+function pickName(address: SnipcartAddress): string | undefined {
+  return (
+    clean(address.name) ||
+    clean(address.fullName) ||
+    clean(`${address.firstName || ''} ${address.lastName || ''}`)
+  );
+}
+
+/**
+ * Normalises and validates an address against the rules of its country
+ * @param address - Address in Snipcart's format
+ * @param options - How complete the address must be
+ * @returns The normalised address, or every field-level error found
+ */
+export function normalizeAddress(
+  address: SnipcartAddress,
+  { requireFullAddress = false }: NormalizeAddressOptions = {},
+): AddressValidationResult {
+  const errors: AddressFieldError[] = [];
+
+  const countryCode = clean(address.country)?.toUpperCase();
+  if (!countryCode) {
+    return { success: false, errors: [{ field: 'country', message: 'Country is required' }] };
+  }
+  if (!/^[A-Z]{2}$/.test(countryCode)) {
+    return { success: false, errors: [{ field: 'country', message: `Unknown country code "${countryCode}"` }] };
+  }
+
+  const rule = getCountryRule(countryCode);
+  const countryName = rule?.name || countryCode;
+
+  const normalized: NormalizedAddress = {
+    name: pickName(address),
+    company: clean(address.company),
+    address1: clean(address.address1) || clean(address.fullAddress),
+    address2: clean(address.address2),
+    city: clean(address.city),
+    stateCode: clean(address.province)?.toUpperCase(),
+    countryCode,
+    zip: normalizePostalCode(address.postalCode, countryCode),
+    phone: normalizePhone(address.phone),
+  };
+
+  if (requireFullAddress) {
+    if (!normalized.name) errors.push({ field: 'name', message: 'Name is required' });
+    if (!normalized.address1) errors.push({ field: 'address1', message: 'Street address is required' });
+    if (!normalized.city) errors.push({ field: 'city', message: 'City is required' });
+  }
+
+  if (rule?.requiresState && !normalized.stateCode) {
+    errors.push({ field: 'province', message: `State or province is required for ${countryName}` });
+  } else if (normalized.stateCode && rule?.states && !rule.states.includes(normalized.stateCode)) {
+    errors.push({ field: 'province', message: `"${normalized.stateCode}" is not a valid state or province in ${countryName}` });
+  }
+
+  if (!normalized.zip) {
+    // Only insist on a postal code for countries known to use them
+    if (rule?.postalCode && !rule.postalCodeOptional) {
+      errors.push({ field: 'postalCode', message: `Postal code is required for ${countryName}` });
+    }
+  } else if (rule?.postalCode && !rule.postalCode.test(normalized.zip)) {
+    errors.push({
+      field: 'postalCode',
+      message: `"${normalized.zip}" is not a valid postal code for ${countryName} (e.g. ${rule.postalCodeExample})`,
+    });
+  }
+
+  if (normalized.phone && !PHONE_PATTERN.test(normalized.phone)) {
+    errors.push({ field: 'phone', message: `"${address.phone}" is not a valid phone number` });
+  }
+
+  return errors.length > 0 ? { success: false, errors } : { success: true, address: normalized };
+}
+
+/**
+ * Formats field-level errors into a single message, like `validateData` does
+ * @param errors - Errors returned by `normalizeAddress`
+ */
+export function formatAddressErrors(errors: AddressFieldError[]): string {
+  return errors.map(error => `${error.field}: ${error.message}`).join(', ');
+}
+
+/**
+ * Converts a normalised address to Printful's recipient fields, leaving out
+ * anything that is not set
+ * @param address - Address returned by `normalizeAddress`
+ */
+export function toPrintfulAddress(address: NormalizedAddress): PrintfulAddress {
+  return {
+    ...(address.name && { name: address.name }),
+    ...(address.company && { company: address.company }),
+    ...(address.address1 && { address1: address.address1 }),
+    ...(address.address2 && { address2: address.address2 }),
+    ...(address.city && { city: address.city }),
+    ...(address.stateCode && { state_code: address.stateCode }),
+    country_code: address.countryCode,
+    ...(address.zip && { zip: address.zip }),
+    ...(address.phone && { phone: address.phone }),
+  };
+}
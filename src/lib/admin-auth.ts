@@ -0,0 +1,28 @@
+/**
+ * Admin API Authentication
+ *
+ * Operator endpoints under `/api/admin` are protected by a static bearer
+ * token (ADMIN_API_TOKEN). Without the variable the endpoints are disabled.
+ */
+
+import { timingSafeEqual } from 'crypto';
+import type { NextApiRequest } from 'next';
+
+/**
+ * Checks the request's `Authorization: Bearer <token>` header
+ * @param req - The incoming API request
+ * @returns True if the token matches ADMIN_API_TOKEN
+ */
+export function isAdminRequest(req: NextApiRequest): boolean {
+  const expected = process.env.ADMIN_API_TOKEN;
+  const header = req.headers.authorization;
+
+  if (!expected || !header?.startsWith('Bearer ')) {
+    return false;
+  }
+
+  const provided = Buffer.from(header.slice('Bearer '.length));
+  const secret = Buffer.from(expected);
+
+  return provided.length === secret.length && timingSafeEqual(provided, secret);
+}
@@ -0,0 +1,74 @@
+import { flagForReview, getLedgerEntry, updateFulfillment } from './order-ledger';
+import { removeOrderJob } from './order-queue';
+import { isPrintfulNotFoundError } from './printful-errors';
+import { deletePrintfulOrder, getPrintfulOrder } from './printful-orders';
+import { addSnipcartOrderNotification } from './snipcart-client';
+
+export type CancellationOutcome =
+  | 'cancelled'
+  | 'already_cancelled'
+  | 'review_required'
+  | 'not_found';
+
+// Printful only lets us cancel orders that have not gone to production yet
+const CANCELLABLE_STATUSES = ['draft', 'pending', 'failed', 'onhold'];
+
+/**
+ * Cancels the Printful order for a Snipcart invoice, or flags it for manual
+ * review when Printful has already started producing it. A submission still
+ * waiting in the retry queue is removed either way.
+ * @param invoiceNumber - Snipcart invoice number (the Printful order external_id)
+ * @param reason - Why the order is being cancelled, for logs and operator notes
+ * @returns The outcome and the Printful order status it was based on
+ */
+export default async function cancelPrintfulOrder(
+  invoiceNumber: string,
+  reason: string,
+): Promise<{ outcome: CancellationOutcome; printfulStatus?: string }> {
+  const dequeued = await removeOrderJob(invoiceNumber);
+
+  let printfulStatus: string;
+  try {
+    ({ status: printfulStatus } = await getPrintfulOrder(invoiceNumber));
+  } catch (error) {
+    if (isPrintfulNotFoundError(error)) {
+      if (dequeued) {
+        // The order never reached Printful; the ledger records that it will not
+        await updateFulfillment(invoiceNumber, { printfulStatus: 'canceled' });
+        console.warn('Removed queued Printful order:', { invoiceNumber, reason });
+        return { outcome: 'cancelled', printfulStatus: 'canceled' };
+      }
+      console.warn('No Printful order to cancel for invoice:', invoiceNumber);
+      return { outcome: 'not_found' };
+    }
+    throw error;
+  }
+
+  if (printfulStatus === 'canceled') {
+    return { outcome: 'already_cancelled', printfulStatus };
+  }
+
+  if (CANCELLABLE_STATUSES.includes(printfulStatus)) {
+    await deletePrintfulOrder(invoiceNumber);
+    await updateFulfillment(invoiceNumber, { printfulStatus: 'canceled' });
+    console.warn('Cancelled Printful order:', { invoiceNumber, reason });
+    return { outcome: 'cancelled', printfulStatus: 'canceled' };
+  }
+
+  // Already in production or shipped - money has been spent, a human decides
+  const reviewReason = `${reason} (Printful order is ${printfulStatus})`;
+  await flagForReview(invoiceNumber, reviewReason);
+  await updateFulfillment(invoiceNumber, { printfulStatus });
+  console.warn('Printful order needs manual review:', { invoiceNumber, reason: reviewReason });
+
+  const entry = await getLedgerEntry(invoiceNumber);
+  if (entry?.snipcartToken) {
+    await addSnipcartOrderNotification(entry.snipcartToken, {
+      type: 'Comment',
+      message: `Manual review required: ${reviewReason}`,
+      deliveryMethod: 'None',
+    });
+  }
+
+  return { outcome: 'review_required', printfulStatus };
+}
@@ -0,0 +1,97 @@
+import { normalizeSyncProduct, planCatalogSync, type CatalogEntry } from './catalog-mapping';
+
+function check(label: string, success: boolean): boolean {
+  console.log(`${label}: ${success ? '✅' : '❌'}`);
+  return success;
+}
+
+function entry(id: string, variants: number, synced: number): CatalogEntry {
+  return {
+    product: { id, external_id: `ext-${id}`, name: `Product ${id}`, thumbnail_url: '', is_ignored: false, variants: [] },
+    variants,
+    synced,
+    fetchedAt: '2026-10-01T00:00:00Z',
+  };
+}
+
+// Test conversion of a Printful sync product
+export function testNormalizeSyncProduct() {
+  console.log('Testing sync product normalization...\n');
+
+  const product = normalizeSyncProduct(
+    { id: 42, external_id: 'tee', name: 'Kids Tee', thumbnail_url: 'https://files.example/tee.png' },
+    [
+      {
+        id: 1,
+        external_id: 'tee-s',
+        name: 'Kids Tee / S',
+        retail_price: '19.00',
+        currency: 'EUR',
+        size: 'S',
+        files: [
+          { type: 'default', url: 'https://files.example/print.png' },
+          { type: 'preview', preview_url: 'https://files.example/preview.png' },
+          { type: 'preview', preview_url: '' },
+        ],
+      },
+      { id: 2, external_id: 'tee-m', name: 'Kids Tee / M', is_enabled: false },
+      { external_id: 'broken' },
+    ],
+  );
+  const [small, medium] = product.variants;
+
+  const results = [
+    check('ID is a string', product.id === '42'),
+    check('category is determined', typeof product.category === 'string' && product.category !== ''),
+    check('default description', !!product.description?.includes('kids tee')),
+    check('variants without ID are dropped', product.variants.length === 2),
+    check('only preview images are kept', small.files.length === 1 && small.files[0].type === 'preview'),
+    check('variant fields are kept', small.retail_price === '19.00' && small.currency === 'EUR' && small.size === 'S'),
+    check('missing fields get defaults', medium.retail_price === '0' && medium.color === null && medium.in_stock),
+    check('disabled variants are kept', medium.is_enabled === false),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Test which products a sync refetches
+export function testPlanCatalogSync() {
+  console.log('Testing catalog sync planning...\n');
+
+  const stored = {
+    '1': entry('1', 4, 4),
+    '2': entry('2', 4, 4),
+    '3': entry('3', 6, 6),
+    '9': entry('9', 2, 2),
+  };
+  const listing = [
+    { id: 1, variants: 4, synced: 4 },
+    { id: 2, variants: 5, synced: 4 },
+    { id: 3, variants: 6, synced: 5 },
+    { id: 4, variants: 3, synced: 3 },
+  ];
+
+  const plan = planCatalogSync(listing, stored);
+  const full = planCatalogSync(listing, stored, true);
+  const empty = planCatalogSync([], stored);
+
+  const results = [
+    check('unchanged products are not fetched', !plan.fetch.includes('1')),
+    check('changed variant count is fetched', plan.fetch.includes('2')),
+    check('changed synced count is fetched', plan.fetch.includes('3')),
+    check('new products are fetched', plan.fetch.includes('4')),
+    check('unlisted products are removed', plan.remove.join() === '9'),
+    check('full sync fetches every listed product', full.fetch.join() === '1,2,3,4'),
+    check('empty listing removes everything', empty.fetch.length === 0 && empty.remove.length === 4),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Run tests if this file is executed directly
+if (typeof window === 'undefined' && require.main === module) {
+  testNormalizeSyncProduct();
+  testPlanCatalogSync();
+}
@@ -0,0 +1,128 @@
+/**
+ * Catalog Mapping
+ *
+ * Converts Printful sync products into the `PrintfulProduct` records the
+ * storefront renders, and decides which products a catalog sync has to
+ * refetch. Printful's product listing carries the number of variants and of
+ * synced variants per product, so products whose counts are unchanged since
+ * the last sync are taken from the local store as they are.
+ */
+
+import { determineProductCategory } from './category-config';
+import { formatVariantName } from './format-variant-name';
+import { getDefaultDescription } from './product-enhancements';
+import type { PrintfulProduct, PrintfulVariant } from '../types';
+
+/** A product as listed by `sync/products`. */
+export interface CatalogListing {
+  id: number;
+  /** Number of variants. */
+  variants: number;
+  /** Number of variants with print files. */
+  synced: number;
+}
+
+export interface CatalogEntry {
+  product: PrintfulProduct;
+  /** Variant counts from the listing the product was fetched for. */
+  variants: number;
+  synced: number;
+  fetchedAt: string;
+}
+
+export interface CatalogSyncPlan {
+  /** Products that are new or whose variant counts changed. */
+  fetch: string[];
+  /** Stored products that are no longer listed. */
+  remove: string[];
+}
+
+/**
+ * Checks whether a variant file is a product photo that can be shown
+ */
+function isPreviewImage(file: any): boolean {
+  return (
+    !!file &&
+    file.type === 'preview' &&
+    typeof file.preview_url === 'string' &&
+    file.preview_url.trim() !== '' &&
+    file.preview_url.startsWith('http')
+  );
+}
+
+/**
+ * Converts a Printful sync variant for the storefront
+ */
+function toCatalogVariant(variant: any): PrintfulVariant {
+  return {
+    id: variant.id || 0,
+    external_id: variant.external_id || '',
+    name: formatVariantName(variant.name, variant.options, variant.size, variant.color),
+    retail_price: variant.retail_price || '0',
+    currency: variant.currency || 'USD',
+    // Only preview images are shown; print files stay with the variant cache
+    files: Array.isArray(variant.files) ? variant.files.filter(isPreviewImage) : [],
+    options: Array.isArray(variant.options) ? variant.options : [],
+    size: variant.size || null,
+    color: variant.color || null,
+    is_enabled: variant.is_enabled ?? true,
+    in_stock: variant.in_stock ?? true,
+    is_ignored: variant.is_ignored ?? false,
+  };
+}
+
+/**
+ * Normalizes a Printful sync product for the storefront
+ * @param syncProduct - `sync_product` of a `sync/products/{id}` response
+ * @param syncVariants - `sync_variants` of the same response
+ * @returns The product with its category, default description and variants
+ */
+export function normalizeSyncProduct(syncProduct: any, syncVariants: any[]): PrintfulProduct {
+  const category = determineProductCategory({
+    name: syncProduct.name || '',
+    tags: syncProduct.tags || [],
+    metadata: syncProduct.metadata || {},
+  });
+
+  return {
+    id: syncProduct.id?.toString() || '',
+    external_id: syncProduct.external_id || '',
+    name: syncProduct.name || 'Unnamed Product',
+    thumbnail_url: syncProduct.thumbnail_url || '',
+    is_ignored: syncProduct.is_ignored ?? false,
+    category,
+    tags: syncProduct.tags || [],
+    metadata: syncProduct.metadata || {},
+    description: getDefaultDescription(syncProduct.name || 'Product', category),
+    variants: (Array.isArray(syncVariants) ? syncVariants : [])
+      .filter(variant => variant && variant.id)
+      .map(toCatalogVariant),
+  };
+}
+
+/**
+ * Works out which products a sync has to fetch and which to drop
+ * @param listing - Every product listed by `sync/products`
+ * @param stored - Products in the local store, keyed by ID
+ * @param full - Refetch every product regardless of its counts
+ * @returns Product IDs to fetch and to remove
+ */
+export function planCatalogSync(
+  listing: CatalogListing[],
+  stored: Record<string, CatalogEntry>,
+  full = false,
+): CatalogSyncPlan {
+  const listed = new Set(listing.map(({ id }) => id.toString()));
+
+  const fetch = listing
+    .filter(({ id, variants, synced }) => {
+      const entry = stored[id.toString()];
+      return full || !entry || entry.variants !== variants || entry.synced !== synced;
+    })
+    .map(({ id }) => id.toString());
+
+  return {
+    fetch,
+    remove: Object.keys(stored).filter(id => !listed.has(id)),
+  };
+}
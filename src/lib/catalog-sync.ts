@@ -0,0 +1,318 @@
+/**
+ * Catalog Sync
+ *
+ * Keeps the whole Printful sync catalog in a local store so storefront pages
+ * never query Printful product by product while rendering. A sync pages
+ * through `sync/products` and refetches only the products that are new or
+ * whose variant counts changed; unlisted products are dropped. Pages trigger
+ * a sync when the last one is older than CATALOG_SYNC_TTL_MINUTES, and
+ * Printful product webhooks refresh single products in between. The sync
+ * variants of every fetched product also go to the variant cache orders are
+ * placed from, so that cache needs no crawl of its own. When the
+ * store cannot be used at all, e.g. on a read-only filesystem, pages read
+ * Printful directly rather than render an empty storefront.
+ */
+
+import { planCatalogSync, normalizeSyncProduct, type CatalogEntry, type CatalogListing } from './catalog-mapping';
+import { fetchInBatches } from './fetch-in-batches';
+import { createJsonStore } from './json-store';
+import { printful } from './printful-client';
+import { isPrintfulNotFoundError } from './printful-errors';
+import { updateProductVariants } from './variant-cache';
+import type { PrintfulProduct, PrintfulSyncVariant } from '../types';
+
+interface CatalogStore {
+  syncedAt?: string;
+  products: Record<string, CatalogEntry>;
+}
+
+interface SyncProductsPage {
+  result: CatalogListing[];
+  paging?: { total: number };
+}
+
+/** A fetched product: its store entry and the sync variants it was built from. */
+interface FetchedProduct {
+  entry: CatalogEntry;
+  syncVariants: PrintfulSyncVariant[];
+}
+
+export interface CatalogSyncResult {
+  /** Products in the catalog after the sync. */
+  products: number;
+  fetched: number;
+  removed: number;
+  /** Products that could not be fetched and keep their previous data, if any. */
+  failed: string[];
+}
+
+// Largest page Printful returns for `sync/products`
+const CATALOG_PAGE_SIZE = 100;
+const DEFAULT_TTL_MINUTES = 10;
+
+const catalogStore = createJsonStore<CatalogStore>('catalog', () => ({ products: {} }));
+
+// Pages rendered in parallel share a single sync
+let pendingSync: { result: Promise<CatalogSyncResult>; full: boolean } | undefined;
+
+/**
+ * Reads the sync interval from CATALOG_SYNC_TTL_MINUTES
+ * @returns Age after which the catalog is synced again, in milliseconds
+ */
+export function getCatalogTtlMs(): number {
+  const minutes = Number(process.env.CATALOG_SYNC_TTL_MINUTES);
+  return (Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_TTL_MINUTES) * 60 * 1000;
+}
+
+/**
+ * Lists every product of the Printful store
+ * @returns ID and variant counts of each product
+ */
+async function listSyncProducts(): Promise<CatalogListing[]> {
+  const listing: CatalogListing[] = [];
+  for (let offset = 0; ; offset += CATALOG_PAGE_SIZE) {
+    const { result, paging }: SyncProductsPage = await printful.get(
+      `sync/products?offset=${offset}&limit=${CATALOG_PAGE_SIZE}`,
+    );
+    listing.push(...result.map(({ id, variants, synced }) => ({ id, variants, synced })));
+    if (!paging || offset + CATALOG_PAGE_SIZE >= paging.total) break;
+  }
+  return listing;
+}
+
+/**
+ * Fetches one product with its variants
+ * @param id - Printful sync product ID
+ * @returns The store entry for the product and its sync variants
+ */
+async function fetchCatalogEntry(id: string, now: Date): Promise<FetchedProduct> {
+  const { result } = await printful.get(`sync/products/${id}`);
+  const syncVariants: PrintfulSyncVariant[] = result.sync_variants || [];
+  return {
+    entry: {
+      product: normalizeSyncProduct(result.sync_product, syncVariants),
+      variants: result.sync_product.variants,
+      synced: result.sync_product.synced,
+      fetchedAt: now.toISOString(),
+    },
+    syncVariants,
+  };
+}
+
+/**
+ * Fetches products a few at a time
+ * @param ids - Printful sync product IDs
+ * @returns The products fetched, and the IDs that failed
+ */
+async function fetchCatalogEntries(
+  ids: string[],
+  now: Date,
+): Promise<{ fetched: Record<string, FetchedProduct>; failed: string[] }> {
+  const fetched: Record<string, FetchedProduct> = {};
+  const failed: string[] = [];
+  await fetchInBatches(ids, async id => {
+    try {
+      fetched[id] = await fetchCatalogEntry(id, now);
+    } catch (error) {
+      console.error('Failed to fetch sync product:', id, error);
+      failed.push(id);
+    }
+  });
+  return { fetched, failed };
+}
+
+/**
+ * Brings the local catalog in line with Printful
+ */
+async function runCatalogSync(full: boolean, now: Date): Promise<CatalogSyncResult> {
+  const listing = await listSyncProducts();
+  const { products: stored } = await catalogStore.read();
+  const plan = planCatalogSync(listing, stored, full);
+
+  // Stored counts of failed products stay behind, so the next sync tries again
+  const { fetched, failed } = await fetchCatalogEntries(plan.fetch, now);
+
+  const catalog = await catalogStore.update(current => {
+    plan.remove.forEach(id => {
+      delete current.products[id];
+    });
+    Object.entries(fetched).forEach(([id, { entry }]) => {
+      current.products[id] = entry;
+    });
+    current.syncedAt = now.toISOString();
+  });
+
+  const refetched = new Set(plan.fetch);
+  await updateProductVariants(
+    {
+      fetched: Object.entries(fetched).map(([id, { syncVariants }]) => ({ syncProductId: Number(id), syncVariants })),
+      unchanged: listing.filter(({ id }) => !refetched.has(id.toString())).map(({ id }) => id),
+      removed: plan.remove.map(Number),
+    },
+    now,
+  );
+
+  const result = {
+    products: Object.keys(catalog.products).length,
+    fetched: Object.keys(fetched).length,
+    removed: plan.remove.length,
+    failed,
+  };
+  console.log('Synced product catalog:', result);
+
+  return result;
+}
+
+/**
+ * Syncs the local catalog with the Printful store. A sync that is already
+ * running is joined rather than started again, unless a full sync is asked
+ * for while an incremental one runs: the full sync then starts after it.
+ * @param options.full - Refetch every product, not only changed ones
+ * @param options.now - Reference time, defaults to the current time
+ * @returns Counts of the products fetched, removed and failed
+ */
+export function syncCatalog({ full = false, now = new Date() }: { full?: boolean; now?: Date } = {}): Promise<CatalogSyncResult> {
+  if (pendingSync && (pendingSync.full || !full)) {
+    return pendingSync.result;
+  }
+
+  const previous = pendingSync?.result.catch(() => undefined);
+  const result = (async () => {
+    await previous;
+    return runCatalogSync(full, now);
+  })().finally(() => {
+    if (pendingSync?.result === result) pendingSync = undefined;
+  });
+  pendingSync = { result, full };
+  return result;
+}
+
+/**
+ * Reads the catalog, syncing first when the last sync has expired. A failed
+ * sync falls back to the stored catalog if there is one.
+ * @returns The catalog, or undefined when the store cannot be read or was
+ *   never written
+ */
+async function readCatalog(now: Date): Promise<CatalogStore | undefined> {
+  let catalog: CatalogStore;
+  try {
+    catalog = await catalogStore.read();
+  } catch (error) {
+    console.error('Catalog store unavailable, reading Printful directly:', error);
+    return undefined;
+  }
+
+  if (catalog.syncedAt && now.getTime() - new Date(catalog.syncedAt).getTime() < getCatalogTtlMs()) {
+    return catalog;
+  }
+
+  try {
+    await syncCatalog({ now });
+    return await catalogStore.read();
+  } catch (error) {
+    if (!catalog.syncedAt) {
+      console.error('Catalog sync failed with no stored catalog, reading Printful directly:', error);
+      return undefined;
+    }
+    console.error('Catalog sync failed, using the stored catalog:', error);
+    return catalog;
+  }
+}
+
+/**
+ * Lists every product of the catalog
+ * @param now - Reference time, defaults to the current time
+ * @returns Products in Printful ID order
+ * @throws Error if there is no stored catalog and Printful is unavailable
+ */
+export async function getCatalogProducts(now: Date = new Date()): Promise<PrintfulProduct[]> {
+  const catalog = await readCatalog(now);
+  if (catalog) {
+    return Object.values(catalog.products).map(entry => entry.product);
+  }
+
+  const listing = await listSyncProducts();
+  const { fetched } = await fetchCatalogEntries(
+    listing.map(({ id }) => id.toString()),
+    now,
+  );
+  return listing.flatMap(({ id }) => fetched[id.toString()]?.entry.product ?? []);
+}
+
+/**
+ * Looks up one product of the catalog
+ * @param id - Printful sync product ID
+ * @param now - Reference time, defaults to the current time
+ * @returns The product, or undefined if Printful does not list it
+ * @throws Error if there is no stored catalog and Printful is unavailable
+ */
+export async function getCatalogProduct(id: string, now: Date = new Date()): Promise<PrintfulProduct | undefined> {
+  const catalog = await readCatalog(now);
+  if (catalog) {
+    return catalog.products[id]?.product;
+  }
+
+  try {
+    return (await fetchCatalogEntry(id, now)).entry.product;
+  } catch (error) {
+    if (isPrintfulNotFoundError(error)) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Summarises the local catalog
+ * @returns Time of the last sync and the number of products and variants
+ */
+export async function getCatalogStatus(): Promise<{ syncedAt?: string; products: number; variants: number }> {
+  const { syncedAt, products } = await catalogStore.read();
+  const entries = Object.values(products);
+  return {
+    syncedAt,
+    products: entries.length,
+    variants: entries.reduce((total, entry) => total + entry.product.variants.length, 0),
+  };
+}
+
+/**
+ * Re-reads one product after Printful reports it was synced or updated.
+ * Falls back to marking it changed so the next sync refetches it, and to
+ * dropping its cached variants so orders look them up again.
+ * @param syncProductId - Printful sync product ID
+ */
+export async function refreshCatalogProduct(syncProductId: number): Promise<void> {
+  const id = syncProductId.toString();
+  let fetched: FetchedProduct | undefined;
+  try {
+    fetched = await fetchCatalogEntry(id, new Date());
+  } catch (error) {
+    console.error('Failed to refresh catalog product:', id, error);
+  }
+
+  await catalogStore.update(current => {
+    if (fetched) {
+      current.products[id] = fetched.entry;
+    } else if (current.products[id]) {
+      current.products[id].variants = -1;
+    }
+  });
+  await updateProductVariants(
+    fetched
+      ? { fetched: [{ syncProductId, syncVariants: fetched.syncVariants }] }
+      : { removed: [syncProductId] },
+  );
+}
+
+/**
+ * Drops a product from the catalog and the variant cache, e.g. after it was
+ * deleted
+ * @param syncProductId - Printful sync product ID
+ */
+export async function removeCatalogProduct(syncProductId: number): Promise<void> {
+  await catalogStore.update(current => {
+    delete current.products[syncProductId.toString()];
+  });
+  await updateProductVariants({ removed: [syncProductId] });
+}
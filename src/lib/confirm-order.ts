@@ -0,0 +1,71 @@
+import { listLedgerEntries, markOrderConfirmed } from './order-ledger';
+import { confirmPrintfulDraft } from './printful-orders';
+
+export type FulfillmentMode = 'immediate' | 'draft';
+
+/**
+ * Reads the fulfillment mode from FULFILLMENT_MODE
+ * - `immediate` (default): orders are confirmed for production on creation
+ * - `draft`: orders are created as drafts and confirmed once Snipcart reports
+ *   the payment as paid and the hold window has passed
+ * @returns The configured fulfillment mode
+ */
+export function getFulfillmentMode(): FulfillmentMode {
+  return process.env.FULFILLMENT_MODE === 'draft' ? 'draft' : 'immediate';
+}
+
+/**
+ * Reads the hold window from FULFILLMENT_HOLD_MINUTES
+ * @returns Delay between payment and confirmation, in milliseconds
+ */
+export function getHoldWindowMs(): number {
+  const minutes = Number(process.env.FULFILLMENT_HOLD_MINUTES);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes * 60 * 1000 : 0;
+}
+
+/**
+ * Confirms a draft Printful order, sending it to production
+ * @param invoiceNumber - Snipcart invoice number (the Printful order external_id)
+ * @returns The Printful order status after confirmation
+ */
+export default async function confirmPrintfulOrder(invoiceNumber: string): Promise<string | undefined> {
+  const { status } = await confirmPrintfulDraft(invoiceNumber);
+  await markOrderConfirmed(invoiceNumber, status);
+  console.warn('Confirmed Printful draft order:', { invoiceNumber, status });
+  return status;
+}
+
+/**
+ * Confirms every draft order that is paid and past its hold window.
+ * Orders flagged for review or cancelled in the meantime are left alone, and
+ * test-mode drafts are never confirmed.
+ * @param now - Reference time, defaults to the current time
+ * @returns Invoice numbers that were confirmed
+ */
+export async function confirmDueDrafts(now: Date = new Date()): Promise<string[]> {
+  const entries = await listLedgerEntries();
+  const due = entries.filter(
+    entry =>
+      entry.status === 'submitted' &&
+      !entry.testMode &&
+      entry.printfulStatus === 'draft' &&
+      entry.paymentStatus === 'Paid' &&
+      !entry.confirmedAt &&
+      !entry.reviewRequired &&
+      !!entry.confirmAfter &&
+      new Date(entry.confirmAfter).getTime() <= now.getTime(),
+  );
+
+  const confirmed: string[] = [];
+  for (const entry of due) {
+    try {
+      await confirmPrintfulOrder(entry.invoiceNumber);
+      confirmed.push(entry.invoiceNumber);
+    } catch (error) {
+      // Left as a draft; the next run tries again
+      console.error('Failed to confirm Printful draft order:', entry.invoiceNumber, error);
+    }
+  }
+
+  return confirmed;
+}
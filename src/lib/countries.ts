@@ -0,0 +1,132 @@
+/**
+ * Country Address Rules
+ *
+ * Per-country address requirements used by `address.ts`: whether a state or
+ * province code is required, which codes exist, and the postal code format.
+ * Postal code patterns run against the normalised code (upper case, single
+ * spaces). Countries missing from this table only need a country code.
+ */
+
+export interface CountryRule {
+  name: string;
+  /** Printful rejects shipments to these countries without a state code. */
+  requiresState?: boolean;
+  /** Valid state or province codes, when the country requires one. */
+  states?: string[];
+  postalCode?: RegExp;
+  /** Example shown in error messages. */
+  postalCodeExample?: string;
+  /** The country has no (mandatory) postal codes. */
+  postalCodeOptional?: boolean;
+  /** Country prefix customers sometimes type before the code, e.g. `B` in `B-1000`. */
+  postalCodePrefix?: string;
+  /**
+   * Rewrites a postal code into its canonical form. Runs before the pattern
+   * is tested, so it must cope with missing or misplaced separators.
+   */
+  formatPostalCode?: (postalCode: string) => string;
+}
+
+/**
+ * Formats a postal code with a single separator before its last characters
+ * @param length - Number of characters after the separator
+ * @param separator - Separator to insert
+ */
+function separatorBefore(length: number, separator: string) {
+  return (postalCode: string) => {
+    const compact = postalCode.replace(/[\s-]/g, '');
+    return `${compact.slice(0, -length)}${separator}${compact.slice(-length)}`;
+  };
+}
+
+const spaceBefore = (length: number) => separatorBefore(length, ' ');
+const dashBefore = (length: number) => separatorBefore(length, '-');
+
+const US_STATES = [
+  'AL', 'AK', 'AZ', 'AR', 'CA', 'CO', 'CT', 'DE', 'DC', 'FL', 'GA', 'HI', 'ID', 'IL', 'IN', 'IA', 'KS',
+  'KY', 'LA', 'ME', 'MD', 'MA', 'MI', 'MN', 'MS', 'MO', 'MT', 'NE', 'NV', 'NH', 'NJ', 'NM', 'NY', 'NC',
+  'ND', 'OH', 'OK', 'OR', 'PA', 'RI', 'SC', 'SD', 'TN', 'TX', 'UT', 'VT', 'VA', 'WA', 'WV', 'WI', 'WY',
+  'AS', 'GU', 'MP', 'PR', 'VI', 'AA', 'AE', 'AP',
+];
+
+const CA_PROVINCES = ['AB', 'BC', 'MB', 'NB', 'NL', 'NS', 'NT', 'NU', 'ON', 'PE', 'QC', 'SK', 'YT'];
+
+const AU_STATES = ['ACT', 'NSW', 'NT', 'QLD', 'SA', 'TAS', 'VIC', 'WA'];
+
+export const COUNTRY_RULES: Record<string, CountryRule> = {
+  AT: { name: 'Austria', postalCode: /^\d{4}$/, postalCodeExample: '1010' },
+  AU: {
+    name: 'Australia',
+    requiresState: true,
+    states: AU_STATES,
+    postalCode: /^\d{4}$/,
+    postalCodeExample: '2000',
+  },
+  BE: { name: 'Belgium', postalCode: /^\d{4}$/, postalCodeExample: '1000', postalCodePrefix: 'B' },
+  BG: { name: 'Bulgaria', postalCode: /^\d{4}$/, postalCodeExample: '1000' },
+  CA: {
+    name: 'Canada',
+    requiresState: true,
+    states: CA_PROVINCES,
+    postalCode: /^[A-Z]\d[A-Z] ?\d[A-Z]\d$/,
+    postalCodeExample: 'K1A 0B1',
+    formatPostalCode: spaceBefore(3),
+  },
+  CH: { name: 'Switzerland', postalCode: /^\d{4}$/, postalCodeExample: '8001' },
+  CY: { name: 'Cyprus', postalCode: /^\d{4}$/, postalCodeExample: '1010' },
+  CZ: { name: 'Czechia', postalCode: /^\d{3} ?\d{2}$/, postalCodeExample: '110 00', formatPostalCode: spaceBefore(2) },
+  DE: { name: 'Germany', postalCode: /^\d{5}$/, postalCodeExample: '10115' },
+  DK: { name: 'Denmark', postalCode: /^\d{4}$/, postalCodeExample: '1050' },
+  EE: { name: 'Estonia', postalCode: /^\d{5}$/, postalCodeExample: '10111' },
+  ES: { name: 'Spain', postalCode: /^\d{5}$/, postalCodeExample: '28001' },
+  FI: { name: 'Finland', postalCode: /^\d{5}$/, postalCodeExample: '00100' },
+  FR: { name: 'France', postalCode: /^\d{5}$/, postalCodeExample: '75001' },
+  GB: {
+    name: 'United Kingdom',
+    postalCode: /^[A-Z]{1,2}\d[A-Z\d]? ?\d[A-Z]{2}$/,
+    postalCodeExample: 'SW1A 1AA',
+    formatPostalCode: spaceBefore(3),
+  },
+  GR: { name: 'Greece', postalCode: /^\d{3} ?\d{2}$/, postalCodeExample: '105 57', formatPostalCode: spaceBefore(2) },
+  HK: { name: 'Hong Kong', postalCodeOptional: true },
+  HR: { name: 'Croatia', postalCode: /^\d{5}$/, postalCodeExample: '10000' },
+  HU: { name: 'Hungary', postalCode: /^\d{4}$/, postalCodeExample: '1011' },
+  IE: {
+    name: 'Ireland',
+    postalCode: /^[A-Z]\d[\dW] ?[A-Z\d]{4}$/,
+    postalCodeExample: 'D02 X285',
+    postalCodeOptional: true,
+    formatPostalCode: spaceBefore(4),
+  },
+  IT: { name: 'Italy', postalCode: /^\d{5}$/, postalCodeExample: '00118' },
+  JP: { name: 'Japan', requiresState: true, postalCode: /^\d{3}-?\d{4}$/, postalCodeExample: '100-0001' },
+  LT: { name: 'Lithuania', postalCode: /^(LT-)?\d{5}$/, postalCodeExample: 'LT-01100' },
+  LU: { name: 'Luxembourg', postalCode: /^\d{4}$/, postalCodeExample: '1111', postalCodePrefix: 'L' },
+  LV: { name: 'Latvia', postalCode: /^(LV-)?\d{4}$/, postalCodeExample: 'LV-1010' },
+  MT: { name: 'Malta', postalCode: /^[A-Z]{3} ?\d{4}$/, postalCodeExample: 'VLT 1117', formatPostalCode: spaceBefore(4) },
+  NL: { name: 'Netherlands', postalCode: /^\d{4} ?[A-Z]{2}$/, postalCodeExample: '1012 AB', formatPostalCode: spaceBefore(2) },
+  NO: { name: 'Norway', postalCode: /^\d{4}$/, postalCodeExample: '0150' },
+  NZ: { name: 'New Zealand', postalCode: /^\d{4}$/, postalCodeExample: '6011' },
+  PL: { name: 'Poland', postalCode: /^\d{2}-\d{3}$/, postalCodeExample: '00-001', formatPostalCode: dashBefore(3) },
+  PT: { name: 'Portugal', postalCode: /^\d{4}-\d{3}$/, postalCodeExample: '1000-001', formatPostalCode: dashBefore(3) },
+  RO: { name: 'Romania', postalCode: /^\d{6}$/, postalCodeExample: '010011' },
+  SE: { name: 'Sweden', postalCode: /^\d{3} ?\d{2}$/, postalCodeExample: '111 22', formatPostalCode: spaceBefore(2) },
+  SI: { name: 'Slovenia', postalCode: /^\d{4}$/, postalCodeExample: '1000' },
+  SK: { name: 'Slovakia', postalCode: /^\d{3} ?\d{2}$/, postalCodeExample: '811 01', formatPostalCode: spaceBefore(2) },
+  US: {
+    name: 'United States',
+    requiresState: true,
+    states: US_STATES,
+    postalCode: /^\d{5}(-\d{4})?$/,
+    postalCodeExample: '10001',
+  },
+};
+
+/**
+ * Looks up the address rules for a country
+ * @param countryCode - ISO 3166-1 alpha-2 country code
+ * @returns The rules, or undefined for countries without specific rules
+ */
+export function getCountryRule(countryCode: string): CountryRule | undefined {
+  return COUNTRY_RULES[countryCode.toUpperCase()];
+}
@@ -0,0 +1,49 @@
+/**
+ * Delivery Configuration
+ *
+ * Production times and holidays used by `delivery-dates.ts` to turn
+ * Printful's transit times into delivery dates. Plain data, like
+ * `shipping-config.ts`.
+ *
+ * All days are business days (Monday to Friday, holidays excluded). Dates
+ * are `MM-DD` for every year or `YYYY-MM-DD` for a single year.
+ */
+
+export interface FulfillmentTimeRule {
+  /** Product type, for reference. */
+  type: string;
+  /** Matched case-insensitively against the Printful product name. */
+  keywords: string[];
+  /** Business days Printful needs to produce the item. */
+  days: number;
+}
+
+export interface DeliveryDeadline {
+  name: string;
+  /** Date the parcel must arrive by. */
+  date: string;
+  /** How many days ahead of the order cutoff the banner starts showing. */
+  noticeDays: number;
+}
+
+/** Production time for products no rule matches. */
+export const DEFAULT_FULFILLMENT_DAYS = 3;
+
+/**
+ * Production time per product type, first match wins. A cart ships when its
+ * slowest item is produced.
+ */
+export const FULFILLMENT_TIMES: FulfillmentTimeRule[] = [
+  { type: 'embroidery', keywords: ['embroider'], days: 5 },
+  { type: 'all-over print', keywords: ['all-over', 'all over'], days: 5 },
+  { type: 'wall art', keywords: ['poster', 'canvas', 'framed'], days: 4 },
+  { type: 'drinkware', keywords: ['mug', 'tumbler', 'bottle'], days: 3 },
+];
+
+/** Days nothing is produced or delivered. */
+export const HOLIDAYS: string[] = ['01-01', '12-24', '12-25', '12-26', '12-31'];
+
+/** Dates customers want their parcel by, announced in the site banner. */
+export const DELIVERY_DEADLINES: DeliveryDeadline[] = [
+  { name: 'Christmas', date: '12-23', noticeDays: 30 },
+];
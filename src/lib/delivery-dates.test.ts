@@ -0,0 +1,62 @@
+import {
+  addBusinessDays,
+  daysUntil,
+  getDeliveryDeadlineNotice,
+  getDeliveryWindow,
+  getFulfillmentDays,
+  getOrderCutoff,
+  toDateKey,
+} from './delivery-dates';
+
+function check(label: string, success: boolean): boolean {
+  console.log(`${label}: ${success ? '✅' : '❌'}`);
+  return success;
+}
+
+function utc(date: string): Date {
+  return new Date(`${date}T10:00:00Z`);
+}
+
+// Test business day arithmetic and delivery windows
+export function testDeliveryWindows() {
+  console.log('Testing delivery windows...\n');
+
+  const window = getDeliveryWindow({ minDeliveryDays: 4, maxDeliveryDays: 7 }, 3, utc('2026-03-02'));
+
+  const results = [
+    check('skips weekends', toDateKey(addBusinessDays(utc('2026-12-18'), 3)) === '2026-12-23'),
+    check('skips holidays', toDateKey(addBusinessDays(utc('2026-12-22'), 3)) === '2026-12-29'),
+    check('default production time', getFulfillmentDays([]) === 3),
+    check('slowest product type wins', getFulfillmentDays(['Unisex T-Shirt', 'Embroidered Dad Hat']) === 5),
+    check('production added before transit', window?.earliest === '2026-03-11' && window?.latest === '2026-03-16'),
+    check('no transit time, no window', getDeliveryWindow({}, 3) === undefined),
+    check('calendar days until delivery', daysUntil('2026-03-16', utc('2026-03-02')) === 14),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Test order cutoffs and the deadline banner
+export function testDeliveryDeadlines() {
+  console.log('Testing delivery deadlines...\n');
+
+  const notice = getDeliveryDeadlineNotice('BE', utc('2026-11-20'));
+
+  const results = [
+    check('cutoff counts back over weekends', toDateKey(getOrderCutoff(utc('2026-12-23'), 15)) === '2026-12-02'),
+    check('EU notice before cutoff', notice?.name === 'Christmas' && notice?.orderBy === '2026-12-06'),
+    check('cutoff depends on zone', getDeliveryDeadlineNotice('JP', utc('2026-11-10'))?.orderBy === '2026-11-18'),
+    check('no notice after cutoff', getDeliveryDeadlineNotice('BE', utc('2026-12-07')) === undefined),
+    check('no notice too early', getDeliveryDeadlineNotice('BE', utc('2026-10-01')) === undefined),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Run tests if this file is executed directly
+if (typeof window === 'undefined' && require.main === module) {
+  testDeliveryWindows();
+  testDeliveryDeadlines();
+}
@@ -0,0 +1,225 @@
+/**
+ * Delivery Dates
+ *
+ * Turns Printful's transit times into delivery dates: production time for
+ * the cart's product types is added first, then transit time, counting
+ * business days only and skipping the holidays from `delivery-config.ts`.
+ * Dates are calendar days in UTC, written as `YYYY-MM-DD`.
+ *
+ * Everything here is pure so it can run in the browser and in tests.
+ */
+
+import {
+  DEFAULT_FULFILLMENT_DAYS,
+  DELIVERY_DEADLINES,
+  FULFILLMENT_TIMES,
+  HOLIDAYS,
+  type DeliveryDeadline,
+  type FulfillmentTimeRule,
+} from './delivery-config';
+import { FALLBACK_SHIPPING_ZONES } from './shipping-config';
+import { matchesCountry } from './shipping-rules';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DeliveryWindow {
+  earliest: string;
+  latest: string;
+}
+
+export interface TransitTime {
+  minDeliveryDays?: number;
+  maxDeliveryDays?: number;
+}
+
+export interface DeliveryDeadlineNotice {
+  name: string;
+  /** Last day to order. */
+  orderBy: string;
+  /** Day the parcel arrives by when ordered in time. */
+  deliverBy: string;
+}
+
+/**
+ * Formats a date as `YYYY-MM-DD`
+ */
+export function toDateKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parses a `YYYY-MM-DD` date, or a date-only copy of a Date, at UTC midnight
+ */
+function startOfDay(date: Date | string): Date {
+  const key = typeof date === 'string' ? date : toDateKey(date);
+  return new Date(`${key}T00:00:00Z`);
+}
+
+/**
+ * Checks whether Printful produces and carriers deliver on a day
+ * @param date - Day to check
+ * @param holidays - `MM-DD` or `YYYY-MM-DD` dates, defaults to HOLIDAYS
+ */
+export function isBusinessDay(date: Date, holidays: string[] = HOLIDAYS): boolean {
+  const weekday = date.getUTCDay();
+  if (weekday === 0 || weekday === 6) return false;
+
+  const key = toDateKey(date);
+  return !holidays.some(holiday => holiday === key || holiday === key.slice(5));
+}
+
+/**
+ * Moves a date forward by a number of business days
+ * @param date - Start date; the day itself does not count
+ * @param days - Business days to add
+ * @param holidays - Defaults to HOLIDAYS
+ * @returns The resulting day, at UTC midnight
+ */
+export function addBusinessDays(date: Date, days: number, holidays: string[] = HOLIDAYS): Date {
+  const result = startOfDay(date);
+  let remaining = days;
+  while (remaining > 0) {
+    result.setUTCDate(result.getUTCDate() + 1);
+    if (isBusinessDay(result, holidays)) remaining -= 1;
+  }
+  return result;
+}
+
+/**
+ * Production time for a cart, i.e. for its slowest product type
+ * @param productNames - Printful product names of the cart items
+ * @param rules - Defaults to FULFILLMENT_TIMES
+ * @returns Business days before the cart ships
+ */
+export function getFulfillmentDays(
+  productNames: string[],
+  rules: FulfillmentTimeRule[] = FULFILLMENT_TIMES,
+): number {
+  if (productNames.length === 0) return DEFAULT_FULFILLMENT_DAYS;
+
+  return productNames.reduce((slowest, productName) => {
+    const name = productName.toLowerCase();
+    const rule = rules.find(candidate => candidate.keywords.some(keyword => name.includes(keyword.toLowerCase())));
+    return Math.max(slowest, rule?.days ?? DEFAULT_FULFILLMENT_DAYS);
+  }, 0);
+}
+
+/**
+ * Calculates when an order placed now would arrive
+ * @param transit - Printful's transit time for the shipping method, in business days
+ * @param fulfillmentDays - Production time, see getFulfillmentDays
+ * @param orderDate - Defaults to today
+ * @param holidays - Defaults to HOLIDAYS
+ * @returns The delivery window, or undefined if Printful gave no transit time
+ */
+export function getDeliveryWindow(
+  transit: TransitTime,
+  fulfillmentDays: number,
+  orderDate: Date = new Date(),
+  holidays: string[] = HOLIDAYS,
+): DeliveryWindow | undefined {
+  const maxDays = transit.maxDeliveryDays ?? transit.minDeliveryDays;
+  if (maxDays === undefined) return undefined;
+  const minDays = transit.minDeliveryDays ?? maxDays;
+
+  return {
+    earliest: toDateKey(addBusinessDays(orderDate, fulfillmentDays + minDays, holidays)),
+    latest: toDateKey(addBusinessDays(orderDate, fulfillmentDays + maxDays, holidays)),
+  };
+}
+
+/**
+ * Counts calendar days from today until a date, for Snipcart's
+ * `guaranteedDaysToDelivery`
+ * @param date - `YYYY-MM-DD`
+ * @param from - Defaults to today
+ */
+export function daysUntil(date: string, from: Date = new Date()): number {
+  return Math.max(0, Math.round((startOfDay(date).getTime() - startOfDay(from).getTime()) / DAY_MS));
+}
+
+/**
+ * Formats a date for customers, e.g. "Dec 14"
+ * @param date - `YYYY-MM-DD`
+ * @param locale - Defaults to en-US
+ */
+export function formatDeliveryDate(date: string, locale: string = 'en-US'): string {
+  return new Intl.DateTimeFormat(locale, { month: 'short', day: 'numeric', timeZone: 'UTC' }).format(startOfDay(date));
+}
+
+/**
+ * Formats a delivery window for customers, e.g. "Dec 3 – Dec 8"
+ * @param window - Window to format
+ * @param locale - Defaults to en-US
+ */
+export function formatDeliveryWindow(window: DeliveryWindow, locale: string = 'en-US'): string {
+  const earliest = formatDeliveryDate(window.earliest, locale);
+  const latest = formatDeliveryDate(window.latest, locale);
+  return earliest === latest ? latest : `${earliest} – ${latest}`;
+}
+
+/**
+ * Finds the last day an order can be placed to arrive by a date
+ * @param deliverBy - Day the parcel must arrive by
+ * @param businessDays - Production plus transit time
+ * @param holidays - Defaults to HOLIDAYS
+ */
+export function getOrderCutoff(deliverBy: Date, businessDays: number, holidays: string[] = HOLIDAYS): Date {
+  const deadline = startOfDay(deliverBy);
+  const cutoff = new Date(deadline);
+  while (addBusinessDays(cutoff, businessDays, holidays) > deadline) {
+    cutoff.setUTCDate(cutoff.getUTCDate() - 1);
+  }
+  return cutoff;
+}
+
+/**
+ * Standard transit time to a country, from the fallback table in
+ * `shipping-config.ts`, which lists the slowest delivery per zone
+ * @param country - ISO 3166-1 alpha-2 country code
+ * @returns Business days, or undefined when no zone covers the country
+ */
+export function getZoneTransitDays(country: string): number | undefined {
+  const zone = FALLBACK_SHIPPING_ZONES.find(candidate => matchesCountry(country, candidate.countries));
+  const rate = zone?.rates.find(candidate => candidate.method === 'STANDARD') ?? zone?.rates[0];
+  return rate?.maxDeliveryDays;
+}
+
+/**
+ * Finds the delivery deadline to announce to a destination, if an order
+ * cutoff is coming up. The slowest production time is assumed since the
+ * cart is not known.
+ * @param country - ISO 3166-1 alpha-2 country code
+ * @param now - Defaults to the current time
+ * @param deadlines - Defaults to DELIVERY_DEADLINES
+ * @param holidays - Defaults to HOLIDAYS
+ * @returns The deadline whose cutoff is at most `noticeDays` away, if any
+ */
+export function getDeliveryDeadlineNotice(
+  country: string,
+  now: Date = new Date(),
+  deadlines: DeliveryDeadline[] = DELIVERY_DEADLINES,
+  holidays: string[] = HOLIDAYS,
+): DeliveryDeadlineNotice | undefined {
+  const transitDays = getZoneTransitDays(country);
+  if (transitDays === undefined) return undefined;
+
+  const businessDays = transitDays + Math.max(DEFAULT_FULFILLMENT_DAYS, ...FULFILLMENT_TIMES.map(rule => rule.days));
+  const today = startOfDay(now);
+  const year = today.getUTCFullYear();
+
+  for (const deadline of deadlines) {
+    // Recurring deadlines are checked this year and next, for cutoffs in early January
+    const dates = deadline.date.length === 5 ? [`${year}-${deadline.date}`, `${year + 1}-${deadline.date}`] : [deadline.date];
+
+    for (const date of dates) {
+      const cutoff = getOrderCutoff(startOfDay(date), businessDays, holidays);
+      const daysLeft = (cutoff.getTime() - today.getTime()) / DAY_MS;
+      if (daysLeft >= 0 && daysLeft <= deadline.noticeDays) {
+        return { name: deadline.name, orderBy: toDateKey(cutoff), deliverBy: date };
+      }
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,79 @@
+import { findRestrictedItems, getProductIdFromUrl, isDestinationAllowed } from './destination-policy';
+import type { DestinationPolicyConfig } from './shipping-config';
+
+const policy: DestinationPolicyConfig = {
+  blockedCountries: ['RU'],
+  products: {
+    '101': { allowedCountries: ['EU', 'UK'] },
+    '102': { blockedCountries: ['US', 'CH'] },
+    '103': { allowedCountries: ['EU'], blockedCountries: ['FR'] },
+  },
+};
+
+function check(label: string, success: boolean): boolean {
+  console.log(`${label}: ${success ? '✅' : '❌'}`);
+  return success;
+}
+
+// Test the global and per-product country lists
+export function testDestinationRules() {
+  console.log('Testing destination rules...\n');
+
+  const results = [
+    check('unlisted product ships anywhere allowed globally', isDestinationAllowed('US', '999', policy)),
+    check('line without a product ID ships anywhere allowed globally', isDestinationAllowed('JP', undefined, policy)),
+    check('global block applies to every product', !isDestinationAllowed('RU', '102', policy)),
+    check('global block applies without a product ID', !isDestinationAllowed('RU', undefined, policy)),
+    check('allowed region ships', isDestinationAllowed('DE', '101', policy)),
+    check('allowed region name covers its countries', isDestinationAllowed('GB', '101', policy)),
+    check('country outside the allowed list is refused', !isDestinationAllowed('US', '101', policy)),
+    check('product block refuses the country', !isDestinationAllowed('CH', '102', policy)),
+    check('product block leaves other countries', isDestinationAllowed('DE', '102', policy)),
+    check('block narrows the allowed list', !isDestinationAllowed('FR', '103', policy)),
+    check('rest of the allowed list still ships', isDestinationAllowed('BE', '103', policy)),
+    check('lowercase country codes are accepted', !isDestinationAllowed('ru', undefined, policy)),
+    check('default policy blocks sanctioned countries', !isDestinationAllowed('KP')),
+    check('default policy ships to the EU', isDestinationAllowed('DE')),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Test the cart check and the product ID lookup
+export function testRestrictedItems() {
+  console.log('Testing restricted cart lines...\n');
+
+  const items = [
+    { id: 'hoodie-m', name: 'Hoodie (M)', productId: '101' },
+    { id: 'mug', productId: '102' },
+    { id: 'poster', name: 'Poster', productId: '999' },
+  ];
+  const swiss = findRestrictedItems('CH', items, policy);
+  const german = findRestrictedItems('DE', items, policy);
+  const unknownCountry = findRestrictedItems('XX', [items[0]], policy);
+
+  const results = [
+    check('restricted lines are listed', swiss.map(item => item.id).join() === 'hoodie-m,mug'),
+    check('nothing is listed when every line ships', german.length === 0),
+    check(
+      'message names the product and country',
+      swiss[0]?.message.startsWith('"Hoodie (M)" cannot be shipped to Switzerland.'),
+    ),
+    check('message falls back to the item ID', swiss[1]?.message.startsWith('Item mug cannot be shipped')),
+    check('unknown country is named by its code', unknownCountry[0]?.message.includes('cannot be shipped to XX.')),
+    check('product ID is read from the item URL', getProductIdFromUrl('/product/101') === '101'),
+    check('query and hash are ignored', getProductIdFromUrl('https://shop.example.com/product/102?ref=x#top') === '102'),
+    check('other URLs have no product ID', getProductIdFromUrl('/cart') === undefined),
+    check('missing URL has no product ID', getProductIdFromUrl() === undefined),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Run tests if this file is executed directly
+if (typeof window === 'undefined' && require.main === module) {
+  testDestinationRules();
+  testRestrictedItems();
+}
@@ -0,0 +1,89 @@
+/**
+ * Destination Policy
+ *
+ * Decides whether cart lines may ship to a country, from the global and
+ * per-product lists in `shipping-config.ts` (DESTINATION_POLICY). Checked
+ * before Printful is asked for rates so the checkout can name the product
+ * that cannot be shipped, and on the product page so customers find out
+ * before they get there.
+ *
+ * Everything here is pure so it can run in the browser.
+ */
+
+import { getCountryRule } from './countries';
+import {
+  DESTINATION_POLICY,
+  type DestinationPolicyConfig,
+  type DestinationRestriction,
+} from './shipping-config';
+import { matchesCountry } from './shipping-rules';
+
+export interface DestinationCheckItem {
+  /** Sync variant external ID, the Snipcart item ID. */
+  id: string;
+  name?: string;
+  /** Printful sync product ID. */
+  productId?: string;
+}
+
+export interface RestrictedItem {
+  id: string;
+  message: string;
+}
+
+/**
+ * Reads the sync product ID from a Snipcart item URL such as `/product/123`
+ * @param url - `data-item-url` of the cart line
+ */
+export function getProductIdFromUrl(url?: string): string | undefined {
+  return url?.match(/\/product\/([^/?#]+)/)?.[1];
+}
+
+/**
+ * Checks a destination against one set of allowed and blocked countries
+ */
+function isAllowedBy(country: string, restriction: DestinationRestriction | undefined): boolean {
+  if (!restriction) return true;
+  if (restriction.allowedCountries && !matchesCountry(country, restriction.allowedCountries)) return false;
+  return !(restriction.blockedCountries && matchesCountry(country, restriction.blockedCountries));
+}
+
+/**
+ * Checks whether a product may ship to a country
+ * @param country - ISO 3166-1 alpha-2 country code
+ * @param productId - Printful sync product ID; without it only the global lists apply
+ * @param policy - Defaults to DESTINATION_POLICY
+ */
+export function isDestinationAllowed(
+  country: string,
+  productId?: string,
+  policy: DestinationPolicyConfig = DESTINATION_POLICY,
+): boolean {
+  const upperCountry = country.toUpperCase();
+  return (
+    isAllowedBy(upperCountry, policy) &&
+    isAllowedBy(upperCountry, productId ? policy.products[productId] : undefined)
+  );
+}
+
+/**
+ * Lists the cart lines that may not ship to a country
+ * @param country - ISO 3166-1 alpha-2 country code
+ * @param items - Cart lines
+ * @param policy - Defaults to DESTINATION_POLICY
+ * @returns One entry per restricted line, with a message naming it
+ */
+export function findRestrictedItems(
+  country: string,
+  items: DestinationCheckItem[],
+  policy: DestinationPolicyConfig = DESTINATION_POLICY,
+): RestrictedItem[] {
+  const countryName = getCountryRule(country)?.name || country.toUpperCase();
+
+  return items
+    .filter(item => !isDestinationAllowed(country, item.productId, policy))
+    .map(item => ({
+      id: item.id,
+      message: `${item.name ? `"${item.name}"` : `Item ${item.id}`} cannot be shipped to ${countryName}. Please remove it from your cart or choose another shipping address.`,
+    }));
+}
@@ -10,6 +10,7 @@ interface EnvironmentVariables {
   PRINTFUL_API_KEY: string;
   NEXT_PUBLIC_SNIPCART_API_KEY?: string;
   SNIPCART_SECRET_KEY?: string;
+  PRINTFUL_WEBHOOK_SECRET?: string;
   NODE_ENV: 'development' | 'production' | 'test';
 }
 
@@ -31,6 +32,7 @@ export function validateEnvironmentVariables(): EnvironmentVariables {
   const optionalVars = {
     NEXT_PUBLIC_SNIPCART_API_KEY: process.env.NEXT_PUBLIC_SNIPCART_API_KEY,
     SNIPCART_SECRET_KEY: process.env.SNIPCART_SECRET_KEY,
+    PRINTFUL_WEBHOOK_SECRET: process.env.PRINTFUL_WEBHOOK_SECRET,
   };
 
   // Check required variables
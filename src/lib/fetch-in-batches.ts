@@ -0,0 +1,25 @@
+/**
+ * Batched Printful Lookups
+ *
+ * Printful limits requests per minute, so lookups of many products or
+ * variants run a few at a time instead of all at once.
+ */
+
+// Requests in flight at once, well within Printful's rate limit
+const FETCH_BATCH_SIZE = 5;
+
+/**
+ * Runs a lookup for every item, a few at a time. A lookup that throws
+ * rejects the whole run, so lookups that may fail on their own should
+ * catch their errors.
+ * @param items - Values to look up
+ * @param fetch - Lookup for a single value
+ * @returns Results in the order of the items
+ */
+export async function fetchInBatches<T, R>(items: T[], fetch: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = [];
+  for (let index = 0; index < items.length; index += FETCH_BATCH_SIZE) {
+    results.push(...(await Promise.all(items.slice(index, index + FETCH_BATCH_SIZE).map(fetch))));
+  }
+  return results;
+}
@@ -0,0 +1,198 @@
+/**
+ * Invoice PDF
+ *
+ * Lays out an invoice (see `invoices.ts`) on A4 pages: seller and buyer
+ * details, one row per order line with its VAT rate, totals as charged at
+ * checkout, the VAT breakdown per rate and any legal mentions.
+ */
+
+import { createPdfDocument, PAGE_HEIGHT, type PdfDocument, type PdfTextOptions } from './pdf';
+import type { Invoice, InvoiceParty } from './invoices';
+
+const MARGIN = 40;
+const RIGHT = 555;
+const LINE_HEIGHT = 14;
+// Rows below this start a new page
+const PAGE_BOTTOM = PAGE_HEIGHT - 60;
+
+// Right edges of the numeric columns of the line table
+const COLUMNS = { quantity: 360, unitPrice: 430, vat: 480, total: RIGHT };
+const DESCRIPTION_WIDTH = 280;
+
+/**
+ * Formats an amount in the invoice currency
+ */
+function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-IE', { style: 'currency', currency }).format(amount);
+  } catch {
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
+
+/**
+ * Formats an ISO timestamp as a day, e.g. 3 December 2026
+ */
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' });
+}
+
+/**
+ * Splits text into lines that fit a width
+ */
+function wrapText(doc: PdfDocument, value: string, width: number, options?: PdfTextOptions): string[] {
+  const lines: string[] = [];
+  value.split(/\s+/).forEach(word => {
+    const current = lines[lines.length - 1];
+    if (current !== undefined && doc.measure(`${current} ${word}`, options) <= width) {
+      lines[lines.length - 1] = `${current} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  });
+  return lines;
+}
+
+/**
+ * Prints a party's name, address and numbers
+ * @returns The y position below the block
+ */
+function drawParty(doc: PdfDocument, party: InvoiceParty, x: number, y: number, title?: string): number {
+  let top = y;
+  if (title) {
+    doc.text(x, top, title, { size: 8, bold: true });
+    top += LINE_HEIGHT;
+  }
+  doc.text(x, top, party.name, { bold: true, size: title ? 10 : 14 });
+  top += title ? LINE_HEIGHT : 18;
+
+  const details = [
+    ...party.address,
+    party.vatNumber && `VAT number: ${party.vatNumber}`,
+    party.registrationNumber && `Company number: ${party.registrationNumber}`,
+    party.email,
+  ].filter((line): line is string => !!line);
+
+  details.forEach(line => {
+    doc.text(x, top, line);
+    top += LINE_HEIGHT;
+  });
+  return top;
+}
+
+/**
+ * Prints the header row of the line table
+ */
+function drawTableHeader(doc: PdfDocument, y: number): number {
+  const bold = { bold: true, size: 9 };
+  doc.text(MARGIN, y, 'Description', bold);
+  doc.text(COLUMNS.quantity, y, 'Qty', { ...bold, align: 'right' });
+  doc.text(COLUMNS.unitPrice, y, 'Unit price', { ...bold, align: 'right' });
+  doc.text(COLUMNS.vat, y, 'VAT', { ...bold, align: 'right' });
+  doc.text(COLUMNS.total, y, 'Amount', { ...bold, align: 'right' });
+  doc.rule(MARGIN, RIGHT, y + 5);
+  return y + LINE_HEIGHT + 4;
+}
+
+/**
+ * Renders an invoice as a PDF
+ * @param invoice - Invoice to render
+ * @returns The PDF file
+ */
+export function renderInvoicePdf(invoice: Invoice): Buffer {
+  const doc = createPdfDocument();
+  const money = (amount: number) => formatMoney(amount, invoice.currency);
+
+  // Moves to a new page when the next rows would not fit
+  const ensureSpace = (y: number, rows: number, header = false): number => {
+    if (y + rows * LINE_HEIGHT <= PAGE_BOTTOM) return y;
+    doc.addPage();
+    return header ? drawTableHeader(doc, MARGIN + 10) : MARGIN + 10;
+  };
+
+  const sellerBottom = drawParty(doc, invoice.seller, MARGIN, MARGIN + 10);
+
+  doc.text(RIGHT, MARGIN + 10, 'INVOICE', { bold: true, size: 20, align: 'right' });
+  [
+    `Invoice number: ${invoice.number}`,
+    `Invoice date: ${formatDate(invoice.issuedAt)}`,
+    `Order: ${invoice.orderInvoiceNumber}`,
+  ].forEach((line, index) => doc.text(RIGHT, MARGIN + 34 + index * LINE_HEIGHT, line, { align: 'right' }));
+
+  const buyerBottom = drawParty(doc, invoice.buyer, MARGIN, Math.max(sellerBottom, MARGIN + 80) + 20, 'BILL TO');
+
+  let y = drawTableHeader(doc, buyerBottom + 24);
+
+  const rows = [
+    ...invoice.lines.map(line => ({
+      description: line.description,
+      quantity: String(line.quantity),
+      unitPrice: money(line.unitPrice),
+      vat: line.vatRate === undefined ? '' : `${line.vatRate}%`,
+      total: money(line.total),
+    })),
+    ...(invoice.shipping > 0
+      ? [{ description: 'Shipping', quantity: '', unitPrice: '', vat: '', total: money(invoice.shipping) }]
+      : []),
+  ];
+
+  rows.forEach(row => {
+    const descriptionLines = wrapText(doc, row.description, DESCRIPTION_WIDTH);
+    y = ensureSpace(y, descriptionLines.length, true);
+    descriptionLines.forEach((line, index) => doc.text(MARGIN, y + index * LINE_HEIGHT, line));
+    doc.text(COLUMNS.quantity, y, row.quantity, { align: 'right' });
+    doc.text(COLUMNS.unitPrice, y, row.unitPrice, { align: 'right' });
+    doc.text(COLUMNS.vat, y, row.vat, { align: 'right' });
+    doc.text(COLUMNS.total, y, row.total, { align: 'right' });
+    y += descriptionLines.length * LINE_HEIGHT;
+  });
+
+  // Totals as charged at checkout
+  const totals: [string, string][] = [
+    ...(invoice.discount > 0 ? [['Discount', money(-invoice.discount)] as [string, string]] : []),
+    ...invoice.taxes.map(tax => [tax.name, money(tax.amount)] as [string, string]),
+  ];
+  y = ensureSpace(y + 6, totals.length + 2);
+  doc.rule(COLUMNS.quantity - 60, RIGHT, y);
+  y += LINE_HEIGHT;
+  totals.forEach(([label, amount]) => {
+    doc.text(COLUMNS.vat, y, label, { align: 'right' });
+    doc.text(RIGHT, y, amount, { align: 'right' });
+    y += LINE_HEIGHT;
+  });
+  doc.text(COLUMNS.vat, y, 'Total', { bold: true, align: 'right' });
+  doc.text(RIGHT, y, money(invoice.total), { bold: true, align: 'right' });
+  y += LINE_HEIGHT;
+  if (invoice.pricesIncludeVat && invoice.vatBreakdown.length > 0) {
+    doc.text(RIGHT, y, 'Prices include VAT', { size: 8, align: 'right' });
+    y += LINE_HEIGHT;
+  }
+
+  if (invoice.vatBreakdown.length > 0) {
+    y = ensureSpace(y + 16, invoice.vatBreakdown.length + 2);
+    const bold = { bold: true, size: 9 };
+    doc.text(MARGIN, y, 'VAT rate', bold);
+    doc.text(MARGIN + 160, y, 'Taxable amount', { ...bold, align: 'right' });
+    doc.text(MARGIN + 260, y, 'VAT', { ...bold, align: 'right' });
+    doc.rule(MARGIN, MARGIN + 260, y + 5);
+    y += LINE_HEIGHT + 4;
+    invoice.vatBreakdown.forEach(({ rate, taxable, amount }) => {
+      doc.text(MARGIN, y, `${rate}%`);
+      doc.text(MARGIN + 160, y, money(taxable), { align: 'right' });
+      doc.text(MARGIN + 260, y, money(amount), { align: 'right' });
+      y += LINE_HEIGHT;
+    });
+  }
+
+  invoice.notes.forEach(note => {
+    const lines = wrapText(doc, note, RIGHT - MARGIN, { size: 9 });
+    y = ensureSpace(y + 10, lines.length);
+    y += 10;
+    lines.forEach(line => {
+      doc.text(MARGIN, y, line, { size: 9 });
+      y += LINE_HEIGHT;
+    });
+  });
+
+  return doc.toBuffer();
+}
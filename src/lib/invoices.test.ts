@@ -0,0 +1,96 @@
+import { buildInvoice, createInvoiceLink, verifyInvoiceLink, type InvoiceParty } from './invoices';
+import type { SnipcartWebhookContent } from '../types';
+
+const seller: InvoiceParty = { name: 'Test Shop', address: ['1 Main Street', '1000 Brussels'], vatNumber: 'BE0411905847' };
+
+const order: SnipcartWebhookContent = {
+  email: 'buyer@example.com',
+  currency: 'eur',
+  grandTotal: 60.24,
+  shippingFees: 5,
+  items: [
+    { id: 'hoodie', name: 'Hoodie', quantity: 2, price: 20, totalPrice: 40 },
+    { id: 'kids-tee', name: 'Kids Tee', quantity: 1, price: 10, totalPrice: 10, categories: ['children'] },
+  ],
+  shippingAddress: { fullName: 'Jane Buyer', country: 'IE', city: 'Dublin', address1: '2 High Street' },
+};
+
+function check(label: string, success: boolean): boolean {
+  console.log(`${label}: ${success ? '✅' : '❌'}`);
+  return success;
+}
+
+// Test the VAT shown on invoices
+export function testInvoiceVat() {
+  console.log('Testing invoice VAT...\n');
+
+  const consumer = buildInvoice('INV-000001', 'SNIP-1', order, seller, 'BE');
+  const business = buildInvoice(
+    'INV-000002',
+    'SNIP-2',
+    { ...order, customFields: [{ name: 'vatNumber', value: 'IE6388047V' }] },
+    seller,
+    'BE',
+  );
+  const exported = buildInvoice('INV-000003', 'SNIP-3', { ...order, shippingAddress: { country: 'US' } }, seller, 'BE');
+  const discounted = buildInvoice('INV-000004', 'SNIP-4', { ...order, totalDiscounts: 10 }, seller, 'BE');
+
+  const results = [
+    check('line rates follow the tax category', consumer.lines.map(line => line.vatRate).join() === '23,0'),
+    check(
+      'breakdown per rate includes shipping',
+      JSON.stringify(consumer.vatBreakdown) ===
+        JSON.stringify([
+          { rate: 23, taxable: 44, amount: 10.12 },
+          { rate: 0, taxable: 11, amount: 0 },
+        ]),
+    ),
+    check('currency is uppercased', consumer.currency === 'EUR'),
+    check('buyer VAT number is shown', business.buyer.vatNumber === 'IE6388047V'),
+    check('reverse charge is zero rated', business.vatBreakdown.length === 1 && business.vatBreakdown[0].amount === 0),
+    check('reverse charge carries the legal mention', business.notes.length === 1),
+    check('no VAT outside the VAT area', exported.vatBreakdown.length === 0 && exported.lines[0].vatRate === undefined),
+    check(
+      'breakdown of a discounted order',
+      JSON.stringify(discounted.vatBreakdown) ===
+        JSON.stringify([
+          { rate: 23, taxable: 36, amount: 8.28 },
+          { rate: 0, taxable: 9, amount: 0 },
+        ]),
+    ),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Test signed download links
+export function testInvoiceLinks() {
+  console.log('Testing invoice links...\n');
+
+  process.env.INVOICE_LINK_SECRET = 'test-secret';
+  process.env.NEXT_PUBLIC_SITE_URL = 'https://shop.example/';
+  process.env.INVOICE_LINK_TTL_DAYS = '1';
+
+  const now = Date.UTC(2026, 0, 1);
+  const link = new URL(createInvoiceLink('INV-000001', now) ?? 'https://invalid');
+  const expires = Number(link.searchParams.get('expires'));
+  const signature = link.searchParams.get('signature') ?? '';
+
+  const results = [
+    check('link points at the download endpoint', link.pathname === '/api/invoices/INV-000001'),
+    check('signed link is accepted', verifyInvoiceLink('INV-000001', expires, signature, now)),
+    check('link for another invoice is rejected', !verifyInvoiceLink('INV-000002', expires, signature, now)),
+    check('changed expiry is rejected', !verifyInvoiceLink('INV-000001', expires + 3600, signature, now)),
+    check('expired link is rejected', !verifyInvoiceLink('INV-000001', expires, signature, now + 2 * 86400000)),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Run tests if this file is executed directly
+if (typeof window === 'undefined' && require.main === module) {
+  testInvoiceVat();
+  testInvoiceLinks();
+}
@@ -0,0 +1,304 @@
+/**
+ * Invoices
+ *
+ * Issues a VAT invoice for every completed order. Invoices are numbered
+ * sequentially without gaps (`INV-000001`, ...), show the seller's details
+ * from the INVOICE_SELLER_* variables, the buyer and their VAT number, the
+ * VAT rate of every line and a breakdown per rate. Setting
+ * INVOICE_SELLER_NAME turns invoicing on.
+ *
+ * The invoice data is kept in the `invoices` store and the PDF in
+ * `<DATA_DIR>/invoices/`. Customers download it through a link signed with
+ * INVOICE_LINK_SECRET that expires after INVOICE_LINK_TTL_DAYS.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+
+import { renderInvoicePdf } from './invoice-pdf';
+import { createJsonStore, getWritableDataDir } from './json-store';
+import { calculateOrderVat, getOrderVatLines } from './order-vat';
+import { extractOrderTotals } from './retail-costs';
+import { getTaxCategory, getVatRate } from './vat';
+import { getOrderVatDetails } from './vat-number';
+import type { OrderVatAmount, SnipcartAddress, SnipcartWebhookContent } from '../types';
+
+const INVOICE_NUMBER_PREFIX = 'INV-';
+const DEFAULT_LINK_TTL_DAYS = 90;
+
+export interface InvoiceParty {
+  name: string;
+  /** Postal address, one line per entry. */
+  address: string[];
+  vatNumber?: string;
+  /** Company registration number. */
+  registrationNumber?: string;
+  email?: string;
+}
+
+export interface InvoiceLine {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  /** Percentage; undefined when no VAT applies to the order. */
+  vatRate?: number;
+  total: number;
+}
+
+export interface Invoice {
+  /** Sequential invoice number, e.g. `INV-000042`. */
+  number: string;
+  /** Snipcart invoice number of the order. */
+  orderInvoiceNumber: string;
+  issuedAt: string;
+  currency: string;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  lines: InvoiceLine[];
+  shipping: number;
+  discount: number;
+  /** Taxes as charged at checkout, including sales tax and deductions. */
+  taxes: { name: string; amount: number }[];
+  /** VAT per rate on goods and shipping. Empty outside the VAT area. */
+  vatBreakdown: OrderVatAmount[];
+  /** Prices on the invoice include the VAT in the breakdown. */
+  pricesIncludeVat: boolean;
+  total: number;
+  /** Legal mentions, e.g. for reverse charge. */
+  notes: string[];
+}
+
+interface InvoiceStore {
+  lastNumber: number;
+  /** Keyed on the Snipcart invoice number, so an order gets one invoice. */
+  invoices: Record<string, Invoice>;
+}
+
+const invoiceStore = createJsonStore<InvoiceStore>('invoices', () => ({ lastNumber: 0, invoices: {} }));
+
+/**
+ * Reads the seller details from the INVOICE_SELLER_* variables
+ * @returns The seller, or undefined when INVOICE_SELLER_NAME is not set
+ */
+export function getInvoiceSeller(): InvoiceParty | undefined {
+  const name = process.env.INVOICE_SELLER_NAME;
+  if (!name) return undefined;
+
+  return {
+    name,
+    // Lines are separated by `|` so the address fits one variable
+    address: (process.env.INVOICE_SELLER_ADDRESS ?? '')
+      .split('|')
+      .map(line => line.trim())
+      .filter(Boolean),
+    vatNumber: process.env.INVOICE_SELLER_VAT_NUMBER || undefined,
+    registrationNumber: process.env.INVOICE_SELLER_REGISTRATION_NUMBER || undefined,
+    email: process.env.INVOICE_SELLER_EMAIL || undefined,
+  };
+}
+
+/**
+ * Reads a numeric field, ignoring missing or malformed values
+ */
+function toAmount(value: unknown): number {
+  const amount = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof amount === 'number' && Number.isFinite(amount) ? amount : 0;
+}
+
+/**
+ * Rounds an amount to cents
+ */
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Formats a Snipcart address as invoice lines
+ */
+function formatAddress(address: SnipcartAddress = {}): string[] {
+  const city = [address.postalCode, address.city, address.province].filter(Boolean).join(' ');
+  return [address.company, address.address1, address.address2, city, address.country].filter(
+    (line): line is string => !!line,
+  );
+}
+
+/**
+ * Builds the invoice for a completed order
+ * @param number - Invoice number to give it
+ * @param orderInvoiceNumber - Snipcart invoice number
+ * @param content - Snipcart `order.completed` content
+ * @param seller - Seller details
+ * @param homeCountry - Country the shop is VAT registered in, for reverse charge
+ * @returns The invoice
+ */
+export function buildInvoice(
+  number: string,
+  orderInvoiceNumber: string,
+  content: SnipcartWebhookContent,
+  seller: InvoiceParty,
+  homeCountry?: string,
+): Invoice {
+  const items = content.items ?? [];
+  const shippingAddress: SnipcartAddress = content.shippingAddress ?? {};
+  const billingAddress: SnipcartAddress = content.billingAddress ?? shippingAddress;
+  const totals = extractOrderTotals(content);
+  const vatDetails = getOrderVatDetails(
+    Array.isArray(content.customFields) ? content.customFields : undefined,
+    String(shippingAddress.country ?? ''),
+    homeCountry,
+  );
+
+  // Same calculation as the tax endpoint made at checkout
+  const vat = calculateOrderVat(content, homeCountry);
+  const vatLines = getOrderVatLines(content);
+  const taxes: Array<Record<string, unknown>> = Array.isArray(content.taxes) ? content.taxes : [];
+
+  return {
+    number,
+    orderInvoiceNumber,
+    issuedAt: typeof content.completionDate === 'string' ? content.completionDate : new Date().toISOString(),
+    currency: totals.currency,
+    seller,
+    buyer: {
+      name: billingAddress.fullName || billingAddress.name || String(content.email ?? ''),
+      address: formatAddress(billingAddress),
+      vatNumber: vatDetails?.vatNumber,
+      email: typeof content.email === 'string' ? content.email : undefined,
+    },
+    lines: items.map((item, index) => ({
+      description: String(item.name ?? item.id),
+      quantity: item.quantity,
+      unitPrice: vatLines[index].price,
+      vatRate: vat.reverseCharge
+        ? 0
+        : vat.amounts.length > 0
+        ? getVatRate(vat.country, getTaxCategory(vatLines[index].categories))
+        : undefined,
+      total: roundCents(toAmount(item.totalPrice) || vatLines[index].price * item.quantity),
+    })),
+    shipping: totals.shipping ?? 0,
+    discount: totals.discount ?? 0,
+    taxes: taxes.map(tax => ({
+      name: String(tax.taxName ?? tax.name ?? 'Tax'),
+      amount: toAmount(tax.amount),
+    })),
+    vatBreakdown: vat.amounts,
+    pricesIncludeVat: vat.pricesIncludeVat,
+    total: vat.total,
+    notes: vatDetails?.vatMention ? [vatDetails.vatMention] : [],
+  };
+}
+
+/**
+ * Path of the PDF of an invoice
+ */
+function getInvoicePath(number: string): string {
+  return path.join(getWritableDataDir(), 'invoices', `${number}.pdf`);
+}
+
+/**
+ * Renders an invoice and saves the PDF
+ */
+async function writeInvoicePdf(invoice: Invoice): Promise<Buffer> {
+  const pdf = renderInvoicePdf(invoice);
+  const filePath = getInvoicePath(invoice.number);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, pdf);
+  return pdf;
+}
+
+/**
+ * Issues the invoice of a completed order, once. Later calls for the same
+ * order return the invoice issued the first time.
+ * @param orderInvoiceNumber - Snipcart invoice number
+ * @param content - Snipcart `order.completed` content
+ * @returns The invoice and whether it was issued by this call, or undefined when invoicing is off
+ */
+export async function issueInvoice(
+  orderInvoiceNumber: string,
+  content: SnipcartWebhookContent,
+): Promise<{ invoice: Invoice; created: boolean } | undefined> {
+  const seller = getInvoiceSeller();
+  if (!seller) return undefined;
+
+  let invoice: Invoice | undefined;
+  let created = false;
+
+  await invoiceStore.update(store => {
+    invoice = store.invoices[orderInvoiceNumber];
+    if (invoice) return;
+
+    // Numbers are handed out inside the serialised update, so they never repeat
+    const number = `${INVOICE_NUMBER_PREFIX}${String(store.lastNumber + 1).padStart(6, '0')}`;
+    invoice = buildInvoice(number, orderInvoiceNumber, content, seller, process.env.VAT_HOME_COUNTRY);
+    store.lastNumber += 1;
+    store.invoices[orderInvoiceNumber] = invoice;
+    created = true;
+  });
+
+  const issued = invoice as Invoice;
+  await writeInvoicePdf(issued);
+  return { invoice: issued, created };
+}
+
+/**
+ * Reads the PDF of an invoice, rendering it again if the file is gone
+ * @param number - Invoice number
+ * @returns The PDF, or undefined if there is no such invoice
+ */
+export async function getInvoicePdf(number: string): Promise<Buffer | undefined> {
+  const { invoices } = await invoiceStore.read();
+  const invoice = Object.values(invoices).find(entry => entry.number === number);
+  if (!invoice) return undefined;
+
+  try {
+    return await fs.readFile(getInvoicePath(number));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    return writeInvoicePdf(invoice);
+  }
+}
+
+/**
+ * Signs an invoice number and expiry time with INVOICE_LINK_SECRET
+ */
+function signInvoiceLink(number: string, expires: number, secret: string): string {
+  return createHmac('sha256', secret).update(`${number}:${expires}`).digest('hex');
+}
+
+/**
+ * Builds the download link of an invoice
+ * @param number - Invoice number
+ * @param now - Defaults to the current time
+ * @returns The signed URL, or undefined when INVOICE_LINK_SECRET or NEXT_PUBLIC_SITE_URL is missing
+ */
+export function createInvoiceLink(number: string, now: number = Date.now()): string | undefined {
+  const secret = process.env.INVOICE_LINK_SECRET;
+  const siteUrl = process.env.NEXT_PUBLIC_SITE_URL;
+  if (!secret || !siteUrl) return undefined;
+
+  const days = Number(process.env.INVOICE_LINK_TTL_DAYS);
+  const ttlDays = Number.isFinite(days) && days > 0 ? days : DEFAULT_LINK_TTL_DAYS;
+  const expires = Math.floor(now / 1000) + Math.round(ttlDays * 24 * 60 * 60);
+
+  const query = new URLSearchParams({ expires: String(expires), signature: signInvoiceLink(number, expires, secret) });
+  return `${siteUrl.replace(/\/$/, '')}/api/invoices/${encodeURIComponent(number)}?${query}`;
+}
+
+/**
+ * Checks the signature and expiry of an invoice download link
+ * @param number - Invoice number from the link
+ * @param expires - Expiry time from the link, in seconds since the epoch
+ * @param signature - Signature from the link
+ * @param now - Defaults to the current time
+ * @returns True when the link was issued by this shop and has not expired
+ */
+export function verifyInvoiceLink(number: string, expires: number, signature: string, now: number = Date.now()): boolean {
+  const secret = process.env.INVOICE_LINK_SECRET;
+  if (!secret || expires * 1000 < now) return false;
+
+  const provided = Buffer.from(signature);
+  const expected = Buffer.from(signInvoiceLink(number, expires, secret));
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
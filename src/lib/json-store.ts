@@ -0,0 +1,129 @@
+/**
+ * Local JSON Store
+ *
+ * Minimal file-backed persistence for server-side state such as the order
+ * ledger. Each store is a single JSON document inside DATA_DIR (defaults to
+ * `.data` in the project root). Writes go through a temporary file and a
+ * rename so a crash never leaves a half-written document behind.
+ *
+ * DATA_DIR must be writable and shared by every server instance, or the
+ * ledger stops keeping orders from being fulfilled twice. Serverless functions
+ * (Netlify, Vercel) have a read-only filesystem that is not shared, so there
+ * DATA_DIR has to be set to a shared volume; stores refuse to work otherwise.
+ *
+ * Only use this from API routes and build-time code - never from components.
+ */
+
+import { accessSync, constants, mkdirSync, promises as fs } from 'fs';
+import path from 'path';
+
+export interface JsonStore<T> {
+  read(): Promise<T>;
+  write(data: T): Promise<void>;
+  update(mutator: (data: T) => T | void): Promise<T>;
+}
+
+// Serialises updates per file so concurrent requests in the same process
+// cannot overwrite each other's changes.
+const pendingUpdates = new Map<string, Promise<unknown>>();
+
+// Data directories already found writable by this process
+const checkedDataDirs = new Set<string>();
+
+/**
+ * Resolves the directory that holds all local stores
+ * @returns Absolute path of the data directory
+ */
+export function getDataDir(): string {
+  return process.env.DATA_DIR
+    ? path.resolve(process.env.DATA_DIR)
+    : path.join(process.cwd(), '.data');
+}
+
+/**
+ * Checks whether the process runs as a serverless function. Netlify and
+ * Vercel functions run on AWS Lambda.
+ */
+function isServerlessRuntime(): boolean {
+  return !!(process.env.AWS_LAMBDA_FUNCTION_NAME || process.env.LAMBDA_TASK_ROOT);
+}
+
+/**
+ * Resolves the data directory and makes sure stores can be written to it.
+ * The check runs once per process and directory.
+ * @returns Absolute path of the data directory
+ * @throws Error when DATA_DIR is not set in a serverless function, or the
+ *   directory cannot be created or written to
+ */
+export function getWritableDataDir(): string {
+  const dataDir = getDataDir();
+  if (checkedDataDirs.has(dataDir)) return dataDir;
+
+  if (!process.env.DATA_DIR && isServerlessRuntime()) {
+    throw new Error(
+      'DATA_DIR is not set. Serverless functions cannot write to the project directory and do not share it between instances; set DATA_DIR to a writable volume shared by every instance.',
+    );
+  }
+
+  try {
+    mkdirSync(dataDir, { recursive: true });
+    accessSync(dataDir, constants.W_OK);
+  } catch (error) {
+    throw new Error(`DATA_DIR ${dataDir} is not writable: ${error instanceof Error ? error.message : error}`);
+  }
+
+  checkedDataDirs.add(dataDir);
+  return dataDir;
+}
+
+/**
+ * Creates a store backed by `<DATA_DIR>/<name>.json`
+ * @param name - File name of the store, without extension
+ * @param initialValue - Factory for the value used when the file does not exist yet
+ * @returns Store with read, write and serialised update operations
+ * @throws Error from every operation when the data directory is not usable
+ */
+export function createJsonStore<T>(name: string, initialValue: () => T): JsonStore<T> {
+  // Resolved on use, so a missing DATA_DIR fails the request instead of the import
+  const getFilePath = () => path.join(getWritableDataDir(), `${name}.json`);
+
+  async function read(): Promise<T> {
+    const filePath = getFilePath();
+    try {
+      const raw = await fs.readFile(filePath, 'utf8');
+      return JSON.parse(raw) as T;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return initialValue();
+      }
+      throw error;
+    }
+  }
+
+  async function write(data: T): Promise<void> {
+    const filePath = getFilePath();
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2), 'utf8');
+    await fs.rename(tempPath, filePath);
+  }
+
+  async function update(mutator: (data: T) => T | void): Promise<T> {
+    const filePath = getFilePath();
+    const previous = pendingUpdates.get(filePath) || Promise.resolve();
+    const next = previous
+      .catch(() => undefined)
+      .then(async () => {
+        const current = await read();
+        const result = mutator(current);
+        const updated = result === undefined ? current : result;
+        await write(updated);
+        return updated;
+      });
+
+    pendingUpdates.set(filePath, next);
+    return next;
+  }
+
+  return { read, write, update };
+}
@@ -0,0 +1,49 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+function check(label: string, success: boolean): boolean {
+  console.log(`${label}: ${success ? '✅' : '❌'}`);
+  return success;
+}
+
+// Test that redelivered refunds are counted once
+export async function testRecordRefund() {
+  console.log('Testing refund recording...\n');
+
+  // Stores resolve DATA_DIR when they are created, so the ledger is loaded after it is set
+  const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'order-ledger-'));
+  process.env.DATA_DIR = dataDir;
+  const { claimOrder, getLedgerEntry, recordRefund } = await import('./order-ledger');
+
+  try {
+    await claimOrder('SNIP-1', { email: 'buyer@example.com' });
+
+    const first = await recordRefund('SNIP-1', { id: 'refund-1', amount: 10, createdAt: '2026-10-01T10:00:00Z' });
+    const retried = await recordRefund('SNIP-1', { id: 'refund-1', amount: 10, createdAt: '2026-10-01T10:05:00Z' });
+    const second = await recordRefund('SNIP-1', { id: 'refund-2', amount: 5, createdAt: '2026-10-02T10:00:00Z' });
+    const withoutId = await recordRefund('SNIP-1', { amount: 1, createdAt: '2026-10-03T10:00:00Z' });
+    const unknown = await recordRefund('SNIP-2', { id: 'refund-3', amount: 5, createdAt: '2026-10-02T10:00:00Z' });
+    const entry = await getLedgerEntry('SNIP-1');
+
+    const results = [
+      check('first delivery is recorded', first === 10),
+      check('redelivered refund is not counted again', retried === 10),
+      check('another refund adds up', second === 15),
+      check('refunds without an ID are always recorded', withoutId === 16),
+      check('one ledger entry per refund', entry?.refunds?.length === 3),
+      check('first delivery keeps its timestamp', entry?.refunds?.[0].createdAt === '2026-10-01T10:00:00Z'),
+      check('unknown invoice records nothing', unknown === 0),
+    ];
+
+    console.log('');
+    return results.every(Boolean);
+  } finally {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  }
+}
+
+// Run tests if this file is executed directly
+if (typeof window === 'undefined' && require.main === module) {
+  testRecordRefund();
+}
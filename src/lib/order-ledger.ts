@@ -0,0 +1,300 @@
+/**
+ * Order Ledger
+ *
+ * Persistent record of every Snipcart invoice the webhook has processed,
+ * keyed on the invoice number. Snipcart retries `order.completed` when the
+ * webhook is slow or fails, so the ledger is what keeps a single purchase
+ * from producing more than one Printful order.
+ */
+
+import { createJsonStore } from './json-store';
+import type { OrderLedgerEntry, OrderLedgerRefund, OrderVat } from '../types';
+
+type OrderLedger = Record<string, OrderLedgerEntry>;
+
+// An entry stuck in `processing` for longer than this is assumed to belong
+// to a request that crashed, and may be claimed again.
+const STALE_PROCESSING_MS = 10 * 60 * 1000;
+
+const ledgerStore = createJsonStore<OrderLedger>('order-ledger', () => ({}));
+
+/**
+ * Looks up the ledger entry for an invoice
+ * @param invoiceNumber - Snipcart invoice number
+ * @returns The entry, or undefined if the invoice has never been seen
+ */
+export async function getLedgerEntry(invoiceNumber: string): Promise<OrderLedgerEntry | undefined> {
+  const ledger = await ledgerStore.read();
+  return ledger[invoiceNumber];
+}
+
+/**
+ * Lists every invoice in the ledger
+ */
+export async function listLedgerEntries(): Promise<OrderLedgerEntry[]> {
+  return Object.values(await ledgerStore.read());
+}
+
+/**
+ * Looks up the ledger entry for a Printful order
+ * @param printfulOrderId - Printful order ID
+ * @returns The entry, or undefined if no invoice maps to the order
+ */
+export async function findLedgerEntryByPrintfulOrderId(
+  printfulOrderId: number,
+): Promise<OrderLedgerEntry | undefined> {
+  const ledger = await ledgerStore.read();
+  return Object.values(ledger).find(entry => entry.printfulOrderId === printfulOrderId);
+}
+
+/**
+ * Looks up the ledger entry for a Snipcart order
+ * @param snipcartToken - Snipcart order token
+ * @returns The entry, or undefined if no invoice was recorded with the token
+ */
+export async function findLedgerEntryBySnipcartToken(
+  snipcartToken: string,
+): Promise<OrderLedgerEntry | undefined> {
+  const ledger = await ledgerStore.read();
+  return Object.values(ledger).find(entry => entry.snipcartToken === snipcartToken);
+}
+
+/**
+ * Claims an invoice for fulfillment. The first delivery (or a retry of a
+ * failed attempt) gets the claim; any other delivery is recorded as a
+ * duplicate and must not create another Printful order.
+ * @param invoiceNumber - Snipcart invoice number
+ * @param order - Customer email, Snipcart order token and VAT details, stored with the entry
+ * @returns The current entry and whether this delivery is a duplicate
+ */
+export async function claimOrder(
+  invoiceNumber: string,
+  order: { email: string; snipcartToken?: string; vatNumber?: string; vatMention?: string },
+): Promise<{ entry: OrderLedgerEntry; duplicate: boolean }> {
+  let duplicate = false;
+
+  const ledger = await ledgerStore.update(current => {
+    const now = new Date();
+    const existing = current[invoiceNumber];
+
+    if (existing) {
+      const isStale =
+        existing.status === 'processing' &&
+        now.getTime() - new Date(existing.updatedAt).getTime() > STALE_PROCESSING_MS;
+
+      existing.deliveries += 1;
+      existing.snipcartToken = existing.snipcartToken || order.snipcartToken;
+      existing.updatedAt = now.toISOString();
+
+      if (existing.status === 'failed' || isStale) {
+        existing.status = 'processing';
+        existing.lastError = undefined;
+      } else {
+        duplicate = true;
+        existing.duplicateDeliveries.push(now.toISOString());
+      }
+      return;
+    }
+
+    current[invoiceNumber] = {
+      invoiceNumber,
+      email: order.email,
+      snipcartToken: order.snipcartToken,
+      vatNumber: order.vatNumber,
+      vatMention: order.vatMention,
+      status: 'processing',
+      deliveries: 1,
+      duplicateDeliveries: [],
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+  });
+
+  return { entry: ledger[invoiceNumber], duplicate };
+}
+
+/**
+ * Records the Printful order created for an invoice
+ * @param invoiceNumber - Snipcart invoice number
+ * @param printfulOrder - ID and status returned by Printful
+ */
+export async function markOrderSubmitted(
+  invoiceNumber: string,
+  printfulOrder: { id?: number; status?: string },
+): Promise<void> {
+  await ledgerStore.update(current => {
+    const entry = current[invoiceNumber];
+    if (!entry) return;
+
+    entry.status = 'submitted';
+    entry.printfulOrderId = printfulOrder.id;
+    entry.printfulStatus = printfulOrder.status;
+    entry.lastError = undefined;
+    entry.updatedAt = new Date().toISOString();
+  });
+}
+
+/**
+ * Records the sandbox result of a Snipcart test-mode order
+ * @param invoiceNumber - Prefixed test invoice number
+ * @param result - Draft order details or estimated costs returned by Printful
+ */
+export async function markTestOrderSubmitted(
+  invoiceNumber: string,
+  result: { printfulOrderId?: number; printfulStatus?: string; estimatedCosts?: Record<string, unknown> },
+): Promise<void> {
+  await ledgerStore.update(current => {
+    const entry = current[invoiceNumber];
+    if (!entry) return;
+
+    entry.status = 'submitted';
+    entry.testMode = true;
+    entry.printfulOrderId = result.printfulOrderId;
+    entry.printfulStatus = result.printfulStatus;
+    entry.estimatedCosts = result.estimatedCosts;
+    entry.lastError = undefined;
+    entry.updatedAt = new Date().toISOString();
+  });
+}
+
+/**
+ * Records that a failed submission was handed to the retry queue. Queued
+ * invoices count as processed, so Snipcart retries are short-circuited.
+ * @param invoiceNumber - Snipcart invoice number
+ * @param error - The error raised while creating the Printful order
+ */
+export async function markOrderQueued(invoiceNumber: string, error: unknown): Promise<void> {
+  await ledgerStore.update(current => {
+    const entry = current[invoiceNumber];
+    if (!entry) return;
+
+    entry.status = 'queued';
+    entry.lastError = error instanceof Error ? error.message : String(error);
+    entry.updatedAt = new Date().toISOString();
+  });
+}
+
+/**
+ * Records a failed fulfillment attempt so the next delivery may retry it
+ * @param invoiceNumber - Snipcart invoice number
+ * @param error - The error raised while creating the Printful order
+ */
+export async function markOrderFailed(invoiceNumber: string, error: unknown): Promise<void> {
+  await ledgerStore.update(current => {
+    const entry = current[invoiceNumber];
+    if (!entry) return;
+
+    entry.status = 'failed';
+    entry.lastError = error instanceof Error ? error.message : String(error);
+    entry.updatedAt = new Date().toISOString();
+  });
+}
+
+/**
+ * Applies fulfillment details reported by Printful to an invoice
+ * @param invoiceNumber - Snipcart invoice number
+ * @param changes - Printful status, tracking details or resolved Snipcart token
+ */
+export async function updateFulfillment(
+  invoiceNumber: string,
+  changes: Partial<Pick<OrderLedgerEntry, 'printfulStatus' | 'trackingNumber' | 'trackingUrl' | 'snipcartToken'>>,
+): Promise<void> {
+  await ledgerStore.update(current => {
+    const entry = current[invoiceNumber];
+    if (!entry) return;
+
+    Object.assign(entry, changes, { updatedAt: new Date().toISOString() });
+  });
+}
+
+/**
+ * Records the VAT charged on an invoice, for the OSS report
+ * @param invoiceNumber - Snipcart invoice number
+ * @param vat - VAT per rate, see `order-vat.ts`
+ */
+export async function recordOrderVat(invoiceNumber: string, vat: OrderVat): Promise<void> {
+  await ledgerStore.update(current => {
+    const entry = current[invoiceNumber];
+    if (!entry) return;
+
+    entry.vat = vat;
+    entry.updatedAt = new Date().toISOString();
+  });
+}
+
+/**
+ * Records a refund issued from the Snipcart dashboard. A refund whose ID is
+ * already recorded (a retried or replayed delivery) is not counted again.
+ * @param invoiceNumber - Snipcart invoice number
+ * @param refund - Snipcart refund ID, refunded amount and operator comment
+ * @returns The total amount refunded for the invoice so far
+ */
+export async function recordRefund(invoiceNumber: string, refund: OrderLedgerRefund): Promise<number> {
+  const ledger = await ledgerStore.update(current => {
+    const entry = current[invoiceNumber];
+    if (!entry) return;
+    if (refund.id && entry.refunds?.some(({ id }) => id === refund.id)) return;
+
+    entry.refunds = [...(entry.refunds || []), refund];
+    entry.updatedAt = new Date().toISOString();
+  });
+
+  return (ledger[invoiceNumber]?.refunds || []).reduce((total, { amount }) => total + amount, 0);
+}
+
+/**
+ * Flags an invoice for manual review by an operator
+ * @param invoiceNumber - Snipcart invoice number
+ * @param reason - Why the order could not be handled automatically
+ */
+export async function flagForReview(invoiceNumber: string, reason: string): Promise<void> {
+  await ledgerStore.update(current => {
+    const entry = current[invoiceNumber];
+    if (!entry) return;
+
+    entry.reviewRequired = true;
+    entry.reviewReason = reason;
+    entry.updatedAt = new Date().toISOString();
+  });
+}
+
+/**
+ * Records the Snipcart payment status of an invoice. The first time it is
+ * reported as paid, the confirmation hold window starts.
+ * @param invoiceNumber - Snipcart invoice number
+ * @param paymentStatus - Snipcart payment status
+ * @param holdWindowMs - Delay between payment and confirming a draft order
+ */
+export async function recordPaymentStatus(
+  invoiceNumber: string,
+  paymentStatus: string,
+  holdWindowMs: number,
+): Promise<void> {
+  await ledgerStore.update(current => {
+    const entry = current[invoiceNumber];
+    if (!entry) return;
+
+    const now = new Date();
+    entry.paymentStatus = paymentStatus;
+    if (paymentStatus === 'Paid' && !entry.confirmAfter) {
+      entry.confirmAfter = new Date(now.getTime() + holdWindowMs).toISOString();
+    }
+    entry.updatedAt = now.toISOString();
+  });
+}
+
+/**
+ * Records that a draft Printful order was confirmed for production
+ * @param invoiceNumber - Snipcart invoice number
+ * @param printfulStatus - Order status returned by Printful after confirming
+ */
+export async function markOrderConfirmed(invoiceNumber: string, printfulStatus?: string): Promise<void> {
+  await ledgerStore.update(current => {
+    const entry = current[invoiceNumber];
+    if (!entry) return;
+
+    entry.confirmedAt = new Date().toISOString();
+    entry.printfulStatus = printfulStatus;
+    entry.updatedAt = entry.confirmedAt;
+  });
+}
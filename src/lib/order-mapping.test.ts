@@ -0,0 +1,125 @@
+import {
+  buildV1OrderPayload,
+  buildV2OrderPayload,
+  mapPlacements,
+  mapShippingMethod,
+  type ResolvedVariants,
+} from './order-mapping';
+import type { OrderSubmission } from '../types';
+
+const order: OrderSubmission = {
+  invoiceNumber: 'SNIP-1001',
+  email: 'jane@example.com',
+  shippingAddress: {
+    firstName: 'Jane',
+    lastName: 'Doe',
+    address1: '1 Main Street',
+    city: 'Berlin',
+    country: 'DE',
+    postalCode: '10115',
+  },
+  items: [{ id: 'shirt-m', quantity: 2, price: 19.5, name: 'Shirt (M)' }],
+  shippingRateUserDefinedId: 'RATE_EXPRESS',
+  totals: { currency: 'EUR', subtotal: 39, shipping: 4.99, total: 43.99 },
+};
+
+const variants: ResolvedVariants = {
+  'shirt-m': {
+    syncVariantId: 555,
+    catalogVariantId: 4012,
+    files: [
+      { type: 'default', url: 'https://files.example.com/front.png' },
+      { type: 'embroidery_chest_left', url: 'https://files.example.com/chest.png' },
+    ],
+    technique: 'dtg',
+  },
+};
+
+function check(label: string, success: boolean): boolean {
+  console.log(`${label}: ${success ? '✅' : '❌'}`);
+  return success;
+}
+
+// Test the v1 payload
+export function testV1Payload() {
+  console.log('Testing v1 order payload...\n');
+
+  const payload = buildV1OrderPayload(order, variants);
+  const results = [
+    check('external_id is the invoice number', payload.external_id === 'SNIP-1001'),
+    check('recipient name from first/last name', payload.recipient.name === 'Jane Doe'),
+    check('sync variant ID', payload.items[0].sync_variant_id === 555),
+    check('retail price', payload.items[0].retail_price === '19.50'),
+    check('retail costs currency', payload.retail_costs.currency === 'EUR'),
+    check('shipping method', payload.shipping === 'EXPRESS'),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Test the v2 payload
+export function testV2Payload() {
+  console.log('Testing v2 order payload...\n');
+
+  const payload = buildV2OrderPayload(order, variants);
+  const [item] = payload.order_items;
+
+  let unknownTechniqueRejected = false;
+  try {
+    buildV2OrderPayload(order, { 'shirt-m': { ...variants['shirt-m'], technique: undefined } });
+  } catch {
+    unknownTechniqueRejected = true;
+  }
+
+  const results = [
+    check('catalog source', item.source === 'catalog'),
+    check('catalog variant ID', item.catalog_variant_id === 4012),
+    check('one placement per print file', item.placements.length === 2),
+    check('unknown technique is rejected', unknownTechniqueRejected),
+    check('retail total', payload.retail_costs.total === '43.99'),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Test the mapping helpers
+export function testMappingHelpers() {
+  console.log('Testing mapping helpers...\n');
+
+  const [front, chest] = mapPlacements(variants['shirt-m'].files, 'dtg');
+  const [sublimated] = mapPlacements([{ type: 'default', url: 'https://files.example.com/all-over.png' }], 'sublimation');
+  let missingVariantRejected = false;
+  try {
+    buildV1OrderPayload({ ...order, items: [{ id: 'unknown', quantity: 1 }] }, variants);
+  } catch {
+    missingVariantRejected = true;
+  }
+
+  let missingStateRejected = false;
+  try {
+    buildV1OrderPayload({ ...order, shippingAddress: { ...order.shippingAddress, country: 'US', postalCode: '10001' } }, variants);
+  } catch {
+    missingStateRejected = true;
+  }
+
+  const results = [
+    check('default file maps to front placement', front.placement === 'front' && front.technique === 'dtg'),
+    check('embroidery technique', chest.technique === 'embroidery'),
+    check('technique of the catalog product', sublimated.technique === 'sublimation'),
+    check('unknown shipping method falls back to STANDARD', mapShippingMethod('pickup') === 'STANDARD'),
+    check('unresolved variant is rejected', missingVariantRejected),
+    check('US address without a state is rejected', missingStateRejected),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Run tests if this file is executed directly
+if (typeof window === 'undefined' && require.main === module) {
+  testV1Payload();
+  testV2Payload();
+  testMappingHelpers();
+}
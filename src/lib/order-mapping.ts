@@ -0,0 +1,220 @@
+/**
+ * Printful Order Mapping
+ *
+ * Pure functions that turn a Snipcart order into a Printful order payload,
+ * for both the v1 (`POST /orders`) and v2 (`POST /v2/orders`) APIs. Nothing
+ * in here talks to the network: variant IDs are resolved beforehand and
+ * passed in, which keeps every mapping step unit-testable.
+ */
+
+import { formatAddressErrors, normalizeAddress, toPrintfulAddress, type PrintfulAddress } from './address';
+import { buildRetailCosts, formatRetailAmount, type PrintfulRetailCosts } from './retail-costs';
+import type { OrderLineItem, OrderSubmission, SnipcartAddress } from '../types';
+
+export type PrintfulOrderApiVersion = 'v1' | 'v2';
+
+/** Printful details for a sync variant, looked up by its external ID. */
+export interface ResolvedVariant {
+  syncVariantId: number;
+  catalogVariantId: number;
+  /** Print files of the sync variant, previews excluded. */
+  files: Array<{ type: string; url: string }>;
+  /**
+   * Default technique of the catalog product in Printful's v2 spelling, e.g.
+   * `dtg`, `sublimation` or `cut-sew`. Only v2 orders need it.
+   */
+  technique?: string;
+}
+
+export type ResolvedVariants = Record<string, ResolvedVariant>;
+
+export interface PrintfulRecipient extends PrintfulAddress {
+  name: string;
+  address1: string;
+  city: string;
+  email: string;
+}
+
+export interface PrintfulV1OrderItem {
+  sync_variant_id: number;
+  quantity: number;
+  retail_price?: string;
+}
+
+export interface PrintfulV1OrderPayload {
+  external_id: string;
+  recipient: PrintfulRecipient;
+  items: PrintfulV1OrderItem[];
+  retail_costs: PrintfulRetailCosts;
+  shipping: string;
+  packing_slip?: { message: string };
+}
+
+export interface PrintfulV2Placement {
+  placement: string;
+  technique: string;
+  layers: Array<{ type: 'file'; url: string }>;
+}
+
+export interface PrintfulV2OrderItem {
+  source: 'catalog';
+  catalog_variant_id: number;
+  quantity: number;
+  retail_price?: string;
+  name?: string;
+  placements: PrintfulV2Placement[];
+}
+
+export interface PrintfulV2OrderPayload {
+  external_id: string;
+  shipping: string;
+  recipient: PrintfulRecipient;
+  order_items: PrintfulV2OrderItem[];
+  retail_costs: PrintfulRetailCosts;
+}
+
+/**
+ * Snipcart shipping method IDs and their Printful shipping method.
+ * Live rates come back from `shipping.ts` as `RATE_<PRINTFUL_ID>`.
+ */
+export const SHIPPING_METHOD_MAP: Record<string, string> = {
+  standard: 'STANDARD',
+  RATE_STANDARD: 'STANDARD',
+  express: 'EXPRESS',
+  RATE_EXPRESS: 'EXPRESS',
+  priority: 'PRIORITY',
+  RATE_PRIORITY: 'PRIORITY',
+  overnight: 'OVERNIGHT',
+  RATE_OVERNIGHT: 'OVERNIGHT',
+  economy: 'ECONOMY',
+  RATE_ECONOMY: 'ECONOMY',
+};
+
+/**
+ * Maps a Snipcart shipping method to a Printful shipping method
+ * @param shippingRateUserDefinedId - Snipcart shipping method ID
+ * @returns The Printful shipping method, STANDARD when unknown
+ */
+export function mapShippingMethod(shippingRateUserDefinedId: string): string {
+  return SHIPPING_METHOD_MAP[shippingRateUserDefinedId] || 'STANDARD';
+}
+
+/**
+ * Maps a Snipcart shipping address to a Printful recipient
+ * @param address - Snipcart shipping address
+ * @param email - Customer email
+ * @returns The Printful recipient
+ * @throws Error listing every invalid address field
+ */
+export function mapRecipient(address: SnipcartAddress, email: string): PrintfulRecipient {
+  const result = normalizeAddress(address, { requireFullAddress: true });
+  if (!result.success) {
+    throw new Error(`Invalid shipping address: ${formatAddressErrors(result.errors)}`);
+  }
+
+  const { name = '', address1 = '', city = '' } = result.address;
+  return { ...toPrintfulAddress(result.address), name, address1, city, email };
+}
+
+/**
+ * Checks that an order has everything Printful needs
+ * @param order - The order to validate
+ * @throws Error naming the first missing field
+ */
+export function validateOrderSubmission(order: OrderSubmission): void {
+  if (!order.invoiceNumber) {
+    throw new Error('Invoice number is required');
+  }
+  if (!order.email) {
+    throw new Error('Email is required');
+  }
+  if (!order.shippingAddress) {
+    throw new Error('Shipping address is required');
+  }
+  if (!order.items || order.items.length === 0) {
+    throw new Error('At least one item is required');
+  }
+}
+
+/**
+ * Finds the resolved variant for a cart line
+ * @throws Error if the variant was not resolved
+ */
+function getResolvedVariant(variants: ResolvedVariants, item: OrderLineItem): ResolvedVariant {
+  const variant = variants[item.id];
+  if (!variant) {
+    throw new Error(`Unable to find sync variant with external ID: ${item.id}`);
+  }
+  return variant;
+}
+
+/**
+ * Maps sync variant print files to v2 placements
+ * @param files - Print files of the sync variant
+ * @param technique - Default technique of the catalog product
+ * @returns One placement per print file
+ */
+export function mapPlacements(files: ResolvedVariant['files'], technique: string): PrintfulV2Placement[] {
+  return files.map(file => ({
+    // v1 calls the main print area `default`
+    placement: file.type === 'default' ? 'front' : file.type,
+    // Embroidery placements exist only for embroidery, also on products that default to another technique
+    technique: file.type.startsWith('embroidery') ? 'embroidery' : technique,
+    layers: [{ type: 'file', url: file.url }],
+  }));
+}
+
+/**
+ * Builds a Printful v1 order payload
+ * @param order - The Snipcart order
+ * @param variants - Resolved variants keyed by external ID
+ * @returns The payload for `POST /orders`
+ */
+export function buildV1OrderPayload(order: OrderSubmission, variants: ResolvedVariants): PrintfulV1OrderPayload {
+  validateOrderSubmission(order);
+
+  return {
+    // The invoice number doubles as the Printful external_id, so Printful
+    // itself refuses a second order for the same purchase.
+    external_id: order.invoiceNumber,
+    recipient: mapRecipient(order.shippingAddress, order.email),
+    items: order.items.map(item => ({
+      sync_variant_id: getResolvedVariant(variants, item).syncVariantId,
+      quantity: item.quantity,
+      retail_price: formatRetailAmount(item.price),
+    })),
+    retail_costs: buildRetailCosts(order.totals),
+    shipping: mapShippingMethod(order.shippingRateUserDefinedId),
+  };
+}
+
+/**
+ * Builds a Printful v2 order payload
+ * @param order - The Snipcart order
+ * @param variants - Resolved variants keyed by external ID
+ * @returns The payload for `POST /v2/orders`
+ */
+export function buildV2OrderPayload(order: OrderSubmission, variants: ResolvedVariants): PrintfulV2OrderPayload {
+  validateOrderSubmission(order);
+
+  return {
+    external_id: order.invoiceNumber,
+    shipping: mapShippingMethod(order.shippingRateUserDefinedId),
+    recipient: mapRecipient(order.shippingAddress, order.email),
+    order_items: order.items.map(item => {
+      const variant = getResolvedVariant(variants, item);
+      if (!variant.technique) {
+        throw new Error(`Unknown print technique for sync variant with external ID: ${item.id}`);
+      }
+      return {
+        source: 'catalog',
+        catalog_variant_id: variant.catalogVariantId,
+        quantity: item.quantity,
+        retail_price: formatRetailAmount(item.price),
+        name: item.name,
+        placements: mapPlacements(variant.files, variant.technique),
+      };
+    }),
+    retail_costs: buildRetailCosts(order.totals),
+  };
+}
@@ -0,0 +1,163 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import type { OrderJob, OrderLedgerEntry, OrderSubmission } from '../types';
+
+function check(label: string, success: boolean): boolean {
+  console.log(`${label}: ${success ? '✅' : '❌'}`);
+  return success;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+function createOrder(invoiceNumber: string): OrderSubmission {
+  return {
+    invoiceNumber,
+    email: 'jane@example.com',
+    shippingAddress: {
+      firstName: 'Jane',
+      lastName: 'Doe',
+      address1: '1 Main Street',
+      city: 'Berlin',
+      country: 'DE',
+      postalCode: '10115',
+    },
+    items: [{ id: 'shirt-m', quantity: 1, price: 19.5, name: 'Shirt (M)' }],
+    shippingRateUserDefinedId: 'RATE_STANDARD',
+    totals: { currency: 'EUR', subtotal: 19.5, shipping: 4.99, total: 24.49 },
+  };
+}
+
+function createEntry(changes: Partial<OrderLedgerEntry>): OrderLedgerEntry {
+  return {
+    invoiceNumber: 'SNIP-1',
+    email: 'jane@example.com',
+    status: 'queued',
+    deliveries: 1,
+    duplicateDeliveries: [],
+    createdAt: '2026-10-01T10:00:00Z',
+    updatedAt: '2026-10-01T10:00:00Z',
+    ...changes,
+  };
+}
+
+// Test the retry schedule and the helpers that decide whether a job runs
+export async function testRetrySchedule() {
+  console.log('Testing retry schedule...\n');
+
+  // The Printful client checks its API key on import
+  Object.assign(process.env, { NODE_ENV: 'test', PRINTFUL_API_KEY: 'test-key' });
+  const { describeOrderError, getNextAttemptAt, isJobClaimed, isOrderWithdrawn } = await import('./order-queue');
+
+  const now = new Date('2026-10-01T10:00:00Z');
+  const delayAfter = (attempts: number) => new Date(getNextAttemptAt(attempts, now)).getTime() - now.getTime();
+
+  const job: OrderJob = {
+    invoiceNumber: 'SNIP-1',
+    order: createOrder('SNIP-1'),
+    attempts: 1,
+    nextAttemptAt: now.toISOString(),
+    lastError: 'Printful 503: Service unavailable',
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+  };
+  const claimedAt = (minutesAgo: number) => new Date(now.getTime() - minutesAgo * MINUTE_MS).toISOString();
+
+  const results = [
+    check('first retry after one minute', delayAfter(1) === MINUTE_MS),
+    check('delay doubles with each attempt', delayAfter(2) === 2 * MINUTE_MS && delayAfter(4) === 8 * MINUTE_MS),
+    check('delay is capped at six hours', delayAfter(20) === 6 * 60 * MINUTE_MS),
+    check('unclaimed job is free', !isJobClaimed(job, now)),
+    check('recently claimed job is taken', isJobClaimed({ ...job, claimedAt: claimedAt(1) }, now)),
+    check('claim of a crashed run expires', !isJobClaimed({ ...job, claimedAt: claimedAt(11) }, now)),
+    check('queued order is not withdrawn', !isOrderWithdrawn(createEntry({ paymentStatus: 'Paid' }))),
+    check('cancelled payment withdraws the order', isOrderWithdrawn(createEntry({ paymentStatus: 'Cancelled' }))),
+    check('refund withdraws the order', isOrderWithdrawn(createEntry({ paymentStatus: 'Refunded' }))),
+    check('order cancelled at Printful is withdrawn', isOrderWithdrawn(createEntry({ printfulStatus: 'canceled' }))),
+    check('order flagged for review is withdrawn', isOrderWithdrawn(createEntry({ reviewRequired: true }))),
+    check(
+      'v1 error reads the result',
+      describeOrderError({ code: 400, result: 'Invalid address' }) === 'Printful 400: Invalid address',
+    ),
+    check(
+      'v2 error reads the detail',
+      describeOrderError({ status: 404, detail: 'Variant not found' }) === 'Printful 404: Variant not found',
+    ),
+    check('application error reads the message', describeOrderError(new Error('No variant')) === 'No variant'),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Test that failing jobs are rescheduled, dead-lettered and dropped once withdrawn
+export async function testDeadLettering() {
+  console.log('Testing dead-lettering...\n');
+
+  const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'order-queue-'));
+  process.env.DATA_DIR = dataDir;
+  process.env.ORDER_RETRY_MAX_ATTEMPTS = '3';
+  Object.assign(process.env, { NODE_ENV: 'test', PRINTFUL_API_KEY: 'test-key' });
+  const { printful } = await import('./printful-client');
+  const { claimOrder, getLedgerEntry, recordPaymentStatus } = await import('./order-ledger');
+  const { enqueueFailedOrder, listOrderJobs, processDueOrderJobs, redriveDeadLetter } = await import('./order-queue');
+
+  // Printful is down for the whole test
+  const outage = { code: 503, result: 'Service unavailable' };
+  printful.get = async () => Promise.reject(outage);
+  printful.post = async () => Promise.reject(outage);
+
+  try {
+    const start = Date.now();
+    const at = (minutes: number) => new Date(start + minutes * MINUTE_MS);
+
+    await claimOrder('SNIP-1', { email: 'jane@example.com' });
+    await claimOrder('SNIP-2', { email: 'john@example.com' });
+    await enqueueFailedOrder(createOrder('SNIP-1'), outage);
+    await enqueueFailedOrder(createOrder('SNIP-2'), outage);
+    await recordPaymentStatus('SNIP-2', 'Refunded', 0);
+
+    const early = await processDueOrderJobs(at(0));
+    const second = await processDueOrderJobs(at(2));
+    const { jobs: afterSecond } = await listOrderJobs();
+    const third = await processDueOrderJobs(at(10));
+    const { jobs, deadLetters } = await listOrderJobs();
+    const entry = await getLedgerEntry('SNIP-1');
+
+    await recordPaymentStatus('SNIP-1', 'Cancelled', 0);
+    const redriven = await redriveDeadLetter('SNIP-1');
+    const afterRedrive = await listOrderJobs();
+
+    const results = [
+      check('nothing runs before the first retry is due', early.rescheduled.length === 0 && early.dropped.length === 0),
+      check('failed retry is rescheduled', second.rescheduled.join() === 'SNIP-1'),
+      check('rescheduled job counts the attempt', afterSecond[0]?.attempts === 2),
+      check('rescheduled job is released', afterSecond[0]?.claimedAt === undefined),
+      check('refunded order is dropped instead of submitted', second.dropped.join() === 'SNIP-2'),
+      check('job is dead-lettered after the last attempt', third.deadLettered.join() === 'SNIP-1'),
+      check('dead-lettered job leaves the queue', jobs.length === 0),
+      check('dead letter keeps the last error', deadLetters[0]?.lastError === 'Printful 503: Service unavailable'),
+      check('dead-lettered order is marked failed', entry?.status === 'failed'),
+      check('cancelled dead letter is dropped on re-drive', redriven === 'dropped'),
+      check(
+        'dropped re-drive leaves nothing behind',
+        afterRedrive.jobs.length === 0 && afterRedrive.deadLetters.length === 0,
+      ),
+    ];
+
+    console.log('');
+    return results.every(Boolean);
+  } finally {
+    delete process.env.ORDER_RETRY_MAX_ATTEMPTS;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  }
+}
+
+// Run tests if this file is executed directly
+if (typeof window === 'undefined' && require.main === module) {
+  (async () => {
+    await testRetrySchedule();
+    await testDeadLettering();
+  })();
+}
@@ -0,0 +1,321 @@
+/**
+ * Order Retry Queue
+ *
+ * Durable store for Printful order submissions that failed inside the
+ * Snipcart webhook (Printful outage, variant lookup failure, rejected
+ * address...). Jobs are retried with exponential backoff; once they run out
+ * of attempts they move to a dead-letter list with the last error attached,
+ * where an operator can re-drive them. Jobs of orders that were cancelled,
+ * refunded or flagged for review in the meantime are dropped, not submitted.
+ */
+
+import { getFulfillmentMode } from './confirm-order';
+import { createJsonStore } from './json-store';
+import { getLedgerEntry, markOrderFailed, markOrderQueued, markOrderSubmitted } from './order-ledger';
+import { getPrintfulErrorStatus, toPrintfulErrorBody } from './printful-errors';
+import { createPrintfulOrder } from './printful-orders';
+import type { DeadLetterOrder, OrderJob, OrderLedgerEntry, OrderSubmission } from '../types';
+
+interface OrderJobStore {
+  jobs: Record<string, OrderJob>;
+  deadLetters: Record<string, DeadLetterOrder>;
+}
+
+export interface OrderJobRunSummary {
+  submitted: string[];
+  rescheduled: string[];
+  deadLettered: string[];
+  /** Jobs of orders that were cancelled, refunded or flagged for review. */
+  dropped: string[];
+}
+
+// Snipcart payment statuses after which nothing may be sent to production
+const WITHDRAWN_PAYMENT_STATUSES = ['Cancelled', 'Refunded'];
+
+const RETRY_BASE_DELAY_MS = 60 * 1000; // 1 minute
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000; // 6 hours
+const DEFAULT_MAX_ATTEMPTS = 8;
+// A claim older than this is assumed to belong to a run that crashed
+const CLAIM_LEASE_MS = 10 * 60 * 1000;
+
+const jobStore = createJsonStore<OrderJobStore>('order-jobs', () => ({
+  jobs: {},
+  deadLetters: {},
+}));
+
+/**
+ * Maximum number of submission attempts before a job is dead-lettered
+ */
+function getMaxAttempts(): number {
+  const configured = Number(process.env.ORDER_RETRY_MAX_ATTEMPTS);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_ATTEMPTS;
+}
+
+/**
+ * Calculates when the next attempt is due
+ * @param attempts - Number of attempts made so far
+ * @param now - Reference time
+ * @returns ISO timestamp of the next attempt
+ */
+export function getNextAttemptAt(attempts: number, now: Date = new Date()): string {
+  const delay = Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, attempts - 1), RETRY_MAX_DELAY_MS);
+  return new Date(now.getTime() + delay).toISOString();
+}
+
+/**
+ * Extracts a readable message from a Printful client or application error
+ * @param error - The error raised while submitting the order
+ * @returns The most specific message available
+ */
+export function describeOrderError(error: unknown): string {
+  const body = toPrintfulErrorBody(error);
+  const status = getPrintfulErrorStatus(error);
+  const nested = toPrintfulErrorBody(body.error);
+
+  if (typeof body.result === 'string') {
+    return status ? `Printful ${status}: ${body.result}` : body.result;
+  }
+  if (typeof nested.message === 'string' && nested.message) {
+    return nested.message;
+  }
+  // v2 errors follow RFC 9457 problem details
+  if (typeof body.detail === 'string') {
+    return status ? `Printful ${status}: ${body.detail}` : body.detail;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Persists a failed submission so it can be retried later
+ * @param order - The order that could not be submitted
+ * @param error - The error raised by the first attempt
+ * @returns The queued job
+ */
+export async function enqueueFailedOrder(order: OrderSubmission, error: unknown): Promise<OrderJob> {
+  const now = new Date();
+  const lastError = describeOrderError(error);
+
+  const store = await jobStore.update(current => {
+    current.jobs[order.invoiceNumber] = {
+      invoiceNumber: order.invoiceNumber,
+      order,
+      attempts: 1,
+      nextAttemptAt: getNextAttemptAt(1, now),
+      lastError,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+    };
+  });
+
+  await markOrderQueued(order.invoiceNumber, lastError);
+  console.warn('Order queued for retry:', {
+    invoiceNumber: order.invoiceNumber,
+    nextAttemptAt: store.jobs[order.invoiceNumber].nextAttemptAt,
+    lastError,
+  });
+
+  return store.jobs[order.invoiceNumber];
+}
+
+/**
+ * Lists queued jobs and dead-lettered orders
+ */
+export async function listOrderJobs(): Promise<{ jobs: OrderJob[]; deadLetters: DeadLetterOrder[] }> {
+  const { jobs, deadLetters } = await jobStore.read();
+  return { jobs: Object.values(jobs), deadLetters: Object.values(deadLetters) };
+}
+
+/**
+ * Checks whether another run is submitting a job
+ * @param job - The queued job
+ * @param now - Reference time
+ */
+export function isJobClaimed(job: OrderJob, now: Date = new Date()): boolean {
+  return !!job.claimedAt && now.getTime() - new Date(job.claimedAt).getTime() < CLAIM_LEASE_MS;
+}
+
+/**
+ * Claims a due job for this run
+ * @param invoiceNumber - Snipcart invoice number
+ * @param now - Reference time
+ * @returns The claimed job, or undefined if it is gone, not due or claimed by another run
+ */
+async function claimJob(invoiceNumber: string, now: Date): Promise<OrderJob | undefined> {
+  let claimed: OrderJob | undefined;
+  await jobStore.update(current => {
+    const job = current.jobs[invoiceNumber];
+    if (!job || new Date(job.nextAttemptAt).getTime() > now.getTime() || isJobClaimed(job)) return;
+
+    job.claimedAt = new Date().toISOString();
+    claimed = { ...job };
+  });
+  return claimed;
+}
+
+/**
+ * Retries every job whose next attempt is due. Each job is claimed before
+ * it is submitted, so overlapping runs never submit the same order twice.
+ * @param now - Reference time, defaults to the current time
+ * @returns Which invoices were submitted, rescheduled, dead-lettered or dropped
+ */
+export async function processDueOrderJobs(now: Date = new Date()): Promise<OrderJobRunSummary> {
+  const summary: OrderJobRunSummary = { submitted: [], rescheduled: [], deadLettered: [], dropped: [] };
+  const { jobs } = await jobStore.read();
+
+  const dueInvoices = Object.values(jobs)
+    .filter(job => new Date(job.nextAttemptAt).getTime() <= now.getTime())
+    .map(job => job.invoiceNumber);
+
+  // One at a time to stay well inside Printful's rate limit
+  for (const invoiceNumber of dueInvoices) {
+    const job = await claimJob(invoiceNumber, now);
+    if (!job) continue;
+
+    const outcome = await runJob(job);
+    summary[outcome].push(invoiceNumber);
+  }
+
+  return summary;
+}
+
+/**
+ * Removes the queued job and the dead letter of an invoice, e.g. after the
+ * order was cancelled
+ * @param invoiceNumber - Snipcart invoice number
+ * @returns Whether there was a job or dead letter to remove
+ */
+export async function removeOrderJob(invoiceNumber: string): Promise<boolean> {
+  let removed = false;
+  await jobStore.update(current => {
+    removed = !!(current.jobs[invoiceNumber] || current.deadLetters[invoiceNumber]);
+    delete current.jobs[invoiceNumber];
+    delete current.deadLetters[invoiceNumber];
+  });
+  return removed;
+}
+
+/**
+ * Checks whether an order may no longer be sent to Printful
+ * @param entry - Ledger entry of the invoice
+ * @returns True once the order was cancelled, refunded or flagged for review
+ */
+export function isOrderWithdrawn(entry: OrderLedgerEntry): boolean {
+  return (
+    entry.printfulStatus === 'canceled' ||
+    !!entry.reviewRequired ||
+    WITHDRAWN_PAYMENT_STATUSES.includes(entry.paymentStatus || '')
+  );
+}
+
+/**
+ * Moves a dead-lettered order back onto the queue and retries it immediately.
+ * An order that was withdrawn since is dropped instead.
+ * @param invoiceNumber - Snipcart invoice number
+ * @returns The outcome of the retry
+ * @throws Error if the invoice is not in the dead-letter list
+ */
+export async function redriveDeadLetter(invoiceNumber: string): Promise<keyof OrderJobRunSummary> {
+  let job: OrderJob | undefined;
+
+  await jobStore.update(current => {
+    const deadLetter = current.deadLetters[invoiceNumber];
+    if (!deadLetter) return;
+
+    const now = new Date().toISOString();
+    job = {
+      invoiceNumber: deadLetter.invoiceNumber,
+      order: deadLetter.order,
+      attempts: 0,
+      nextAttemptAt: now,
+      lastError: deadLetter.lastError,
+      claimedAt: now,
+      createdAt: deadLetter.createdAt,
+      updatedAt: now,
+    };
+    current.jobs[invoiceNumber] = job;
+    delete current.deadLetters[invoiceNumber];
+  });
+
+  if (!job) {
+    throw new Error(`No dead-lettered order for invoice ${invoiceNumber}`);
+  }
+
+  await markOrderQueued(invoiceNumber, job.lastError);
+  return runJob(job);
+}
+
+/**
+ * Makes a single submission attempt and updates the job accordingly
+ * @param job - The job to run
+ * @returns Whether the job was submitted, rescheduled, dead-lettered or dropped
+ */
+async function runJob(job: OrderJob): Promise<keyof OrderJobRunSummary> {
+  const entry = await getLedgerEntry(job.invoiceNumber);
+  if (entry && isOrderWithdrawn(entry)) {
+    await removeOrderJob(job.invoiceNumber);
+    console.warn('Dropped order job of a withdrawn order:', {
+      invoiceNumber: job.invoiceNumber,
+      paymentStatus: entry.paymentStatus,
+      printfulStatus: entry.printfulStatus,
+      reviewReason: entry.reviewReason,
+    });
+    return 'dropped';
+  }
+
+  try {
+    const order = await createPrintfulOrder(job.order, {
+      confirm: getFulfillmentMode() === 'immediate',
+    });
+    await markOrderSubmitted(job.invoiceNumber, order);
+    await jobStore.update(current => {
+      delete current.jobs[job.invoiceNumber];
+    });
+    return 'submitted';
+  } catch (error) {
+    const now = new Date();
+    const attempts = job.attempts + 1;
+    const lastError = describeOrderError(error);
+    // The job is removed while it runs when the order is cancelled
+    let removed = false;
+
+    if (attempts >= getMaxAttempts()) {
+      await jobStore.update(current => {
+        removed = !current.jobs[job.invoiceNumber];
+        if (removed) return;
+
+        delete current.jobs[job.invoiceNumber];
+        current.deadLetters[job.invoiceNumber] = {
+          ...job,
+          attempts,
+          lastError,
+          claimedAt: undefined,
+          updatedAt: now.toISOString(),
+          deadLetteredAt: now.toISOString(),
+        };
+      });
+      if (removed) return 'dropped';
+
+      await markOrderFailed(job.invoiceNumber, lastError);
+      console.error('Order moved to dead-letter list:', { invoiceNumber: job.invoiceNumber, attempts, lastError });
+      return 'deadLettered';
+    }
+
+    await jobStore.update(current => {
+      removed = !current.jobs[job.invoiceNumber];
+      if (removed) return;
+
+      current.jobs[job.invoiceNumber] = {
+        ...job,
+        attempts,
+        lastError,
+        claimedAt: undefined,
+        nextAttemptAt: getNextAttemptAt(attempts, now),
+        updatedAt: now.toISOString(),
+      };
+    });
+    if (removed) return 'dropped';
+
+    await markOrderQueued(job.invoiceNumber, lastError);
+    return 'rescheduled';
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Order VAT
+ *
+ * Works out the VAT of a completed Snipcart order the same way the tax
+ * endpoint charged it at checkout: per rate on discounted goods and shipping
+ * for the destination country, zero rated for intra-EU B2B orders. The result is kept
+ * in the order ledger for the OSS report and printed on invoices.
+ */
+
+import { extractOrderTotals } from './retail-costs';
+import { applyDiscount, calculateShippingVat, calculateVat, pricesIncludeVat, type VatLine } from './vat';
+import { getOrderVatDetails } from './vat-number';
+import type { OrderVat, OrderVatAmount, SnipcartWebhookContent } from '../types';
+
+/**
+ * Reads a numeric field, ignoring missing or malformed values
+ */
+function toAmount(value: unknown): number {
+  const amount = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof amount === 'number' && Number.isFinite(amount) ? amount : 0;
+}
+
+/**
+ * Rounds an amount to cents
+ */
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Reads the cart lines of an order as VAT lines
+ * @param content - Snipcart order content
+ * @returns One line per item, in order
+ */
+export function getOrderVatLines(content: SnipcartWebhookContent): VatLine[] {
+  return (content.items ?? []).map(item => ({
+    price: toAmount(item.price),
+    quantity: item.quantity,
+    categories: Array.isArray(item.categories) ? item.categories : undefined,
+  }));
+}
+
+/**
+ * Calculates the VAT of a completed order
+ * @param content - Snipcart `order.completed` content
+ * @param homeCountry - Country the shop is VAT registered in, for reverse charge
+ * @returns VAT per rate on goods and shipping for the destination country
+ */
+export function calculateOrderVat(content: SnipcartWebhookContent, homeCountry?: string): OrderVat {
+  const country = String(content.shippingAddress?.country ?? '').toUpperCase();
+  const totals = extractOrderTotals(content);
+  const inclusive = pricesIncludeVat();
+  const lines = getOrderVatLines(content);
+  const shipping = totals.shipping ?? 0;
+  const options = { pricesIncludeVat: inclusive, discount: totals.discount };
+
+  const reverseCharge = !!getOrderVatDetails(
+    Array.isArray(content.customFields) ? content.customFields : undefined,
+    country,
+    homeCountry,
+  )?.vatMention;
+
+  let amounts: OrderVatAmount[] = [];
+  const goodsVat = calculateVat(country, lines, options);
+  const shippingVat = calculateShippingVat(country, lines, shipping, options);
+
+  if (reverseCharge) {
+    const taxable = applyDiscount(lines, totals.discount).reduce(
+      (total, line) => total + line.price * line.quantity,
+      shipping,
+    );
+    amounts = [{ rate: 0, taxable: roundCents(taxable), amount: 0 }];
+  } else if (goodsVat && shippingVat) {
+    const byRate = new Map<number, OrderVatAmount>();
+    [...goodsVat.amounts, ...shippingVat.amounts].forEach(({ rate, taxable, amount }) => {
+      const summary = byRate.get(rate) ?? { rate, taxable: 0, amount: 0 };
+      byRate.set(rate, {
+        rate,
+        taxable: roundCents(summary.taxable + taxable),
+        amount: roundCents(summary.amount + amount),
+      });
+    });
+    amounts = Array.from(byRate.values()).sort((a, b) => b.rate - a.rate);
+  }
+
+  return {
+    country,
+    currency: totals.currency,
+    pricesIncludeVat: inclusive,
+    reverseCharge,
+    amounts,
+    total: totals.total ?? 0,
+  };
+}
@@ -0,0 +1,124 @@
+import { buildOssReport, formatOssCsv, getPreviousQuarter, getQuarter } from './oss-report';
+import type { OrderLedgerEntry, OrderVat } from '../types';
+
+function check(label: string, success: boolean): boolean {
+  console.log(`${label}: ${success ? '✅' : '❌'}`);
+  return success;
+}
+
+function order(
+  invoiceNumber: string,
+  createdAt: string,
+  vat?: Partial<OrderVat>,
+  extra: Partial<OrderLedgerEntry> = {},
+): OrderLedgerEntry {
+  return {
+    invoiceNumber,
+    email: 'buyer@example.com',
+    status: 'submitted',
+    deliveries: 1,
+    duplicateDeliveries: [],
+    createdAt,
+    updatedAt: createdAt,
+    vat: vat && {
+      country: 'DE',
+      currency: 'EUR',
+      pricesIncludeVat: false,
+      reverseCharge: false,
+      amounts: [],
+      total: 0,
+      ...vat,
+    },
+    ...extra,
+  };
+}
+
+const entries: OrderLedgerEntry[] = [
+  order(
+    'DE-1',
+    '2026-07-10T10:00:00Z',
+    { country: 'DE', amounts: [{ rate: 19, taxable: 100, amount: 19 }], total: 119 },
+    { refunds: [{ amount: 59.5, createdAt: '2026-08-01T10:00:00Z' }] },
+  ),
+  order(
+    'FR-1',
+    '2026-05-10T10:00:00Z',
+    { country: 'FR', amounts: [{ rate: 20, taxable: 50, amount: 10 }], total: 60 },
+    { refunds: [{ amount: 60, createdAt: '2026-07-02T10:00:00Z' }] },
+  ),
+  order('IE-1', '2026-09-30T23:00:00Z', {
+    country: 'IE',
+    pricesIncludeVat: true,
+    amounts: [
+      { rate: 23, taxable: 123, amount: 23 },
+      { rate: 0, taxable: 10, amount: 0 },
+    ],
+    total: 133,
+  }),
+  order('GR-1', '2026-08-10T10:00:00Z', { country: 'GR', amounts: [{ rate: 24, taxable: 10, amount: 2.4 }], total: 12.4 }),
+  order('BE-1', '2026-07-10T10:00:00Z', { country: 'BE', amounts: [{ rate: 21, taxable: 100, amount: 21 }], total: 121 }),
+  order('NL-B2B', '2026-07-10T10:00:00Z', { country: 'NL', reverseCharge: true, amounts: [{ rate: 0, taxable: 80, amount: 0 }] }),
+  order('US-1', '2026-07-10T10:00:00Z', { country: 'US', amounts: [], total: 50 }),
+  order('IE-USD', '2026-07-10T10:00:00Z', { country: 'IE', currency: 'USD', amounts: [{ rate: 23, taxable: 10, amount: 2.3 }] }),
+  order('OLD-1', '2026-07-10T10:00:00Z'),
+  order('TEST-1', '2026-07-10T10:00:00Z', { country: 'FR', amounts: [{ rate: 20, taxable: 5, amount: 1 }] }, { testMode: true }),
+  order('Q2-1', '2026-06-10T10:00:00Z', { country: 'FR', amounts: [{ rate: 20, taxable: 5, amount: 1 }], total: 6 }),
+];
+
+// Test aggregation per member state and rate
+export function testSupplies() {
+  console.log('Testing OSS supplies...\n');
+
+  const report = buildOssReport(entries, '2026-Q3', 'BE');
+  const row = (country: string, rate: number) =>
+    report.rows.find(entry => entry.type === 'SUPPLY' && entry.country === country && entry.rate === rate);
+
+  const results = [
+    check('refund in the same quarter reduces the supply', row('DE', 19)?.taxable === 50 && row('DE', 19)?.vat === 9.5),
+    check('inclusive prices are reported without VAT', row('IE', 23)?.taxable === 100 && row('IE', 23)?.vat === 23),
+    check('reduced rate gets its own row', row('IE', 0)?.rateType === 'REDUCED' && row('IE', 23)?.rateType === 'STANDARD'),
+    check('domestic sales are left out', !report.rows.some(entry => entry.country === 'BE')),
+    check('reverse charge is left out', !report.rows.some(entry => entry.country === 'NL')),
+    check('test and other-quarter orders are left out', report.orders === 3),
+    check(
+      'other currencies and unrecorded orders are skipped',
+      report.skipped.map(entry => entry.invoiceNumber).join() === 'IE-USD,OLD-1',
+    ),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Test refunds of earlier quarters and the CSV export
+export function testCorrectionsAndCsv() {
+  console.log('Testing OSS corrections and CSV...\n');
+
+  const report = buildOssReport(entries, '2026-Q3', 'BE');
+  const correction = report.rows.find(entry => entry.type === 'CORRECTION');
+  const csv = formatOssCsv(report).split('\r\n');
+
+  const results = [
+    check(
+      'refund of an earlier quarter is a negative correction',
+      correction?.country === 'FR' && correction.taxable === -50 && correction.vat === -10,
+    ),
+    check('correction names the corrected quarter', correction?.correctedQuarter === '2026-Q2'),
+    check('corrections come after supplies', report.rows[report.rows.length - 1] === correction),
+    check('totals include refunds', report.totals.vat === 9.5 + 23 + 2.4 - 10),
+    check('CSV starts with the header', csv[0].startsWith('Type;Member state of consumption;')),
+    check('CSV uses EL for Greece', csv.includes('SUPPLY;EL;GOODS;STANDARD;24.00;10.00;2.40;')),
+    check('CSV correction row', csv.includes('CORRECTION;FR;GOODS;STANDARD;20.00;-50.00;-10.00;2026-Q2')),
+    check('quarter of a date', getQuarter('2026-09-30T23:59:59Z') === '2026-Q3'),
+    check('previous quarter crosses the year', getPreviousQuarter(new Date('2026-01-15T00:00:00Z')) === '2025-Q4'),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Run tests if this file is executed directly
+if (typeof window === 'undefined' && require.main === module) {
+  testSupplies();
+  testCorrectionsAndCsv();
+}
@@ -0,0 +1,232 @@
+/**
+ * OSS VAT Report
+ *
+ * Quarterly One-Stop Shop return built from the VAT recorded in the order
+ * ledger: taxable amounts and VAT per member state of consumption and rate,
+ * for EU consumers outside VAT_HOME_COUNTRY. Domestic sales belong on the
+ * national VAT return and reverse-charged B2B orders on the EC sales list,
+ * so neither is included.
+ *
+ * Refunds count in the quarter they were issued, spread over the order's
+ * rates in proportion to the amount refunded. Refunds of orders from the same
+ * quarter reduce its supplies; refunds of orders from an earlier quarter are
+ * negative corrections of that quarter.
+ *
+ * OSS returns are in euro. Orders in another currency are listed as skipped,
+ * to be converted at the ECB rate of the last day of the quarter by hand.
+ */
+
+import { listLedgerEntries } from './order-ledger';
+import { getVatCountry, type VatRateTable, VAT_RATES } from './vat';
+import type { OrderLedgerEntry } from '../types';
+
+export interface OssReportRow {
+  /** `CORRECTION` rows adjust the return of an earlier quarter. */
+  type: 'SUPPLY' | 'CORRECTION';
+  /** Member state of consumption. */
+  country: string;
+  rateType: 'STANDARD' | 'REDUCED';
+  /** Percentage. */
+  rate: number;
+  /** Amount excluding VAT, negative for refunds. */
+  taxable: number;
+  vat: number;
+  /** Quarter being corrected, e.g. `2026-Q2`, for corrections. */
+  correctedQuarter?: string;
+}
+
+export interface OssReport {
+  /** e.g. `2026-Q3`. */
+  quarter: string;
+  homeCountry: string;
+  rows: OssReportRow[];
+  totals: { taxable: number; vat: number };
+  /** OSS orders placed in the quarter. */
+  orders: number;
+  /** Refunds of OSS orders issued in the quarter. */
+  refunds: number;
+  /** Orders that need attention before filing. */
+  skipped: { invoiceNumber: string; reason: string }[];
+}
+
+/** Column headers of the CSV export, in order. */
+export const OSS_CSV_COLUMNS = [
+  'Type',
+  'Member state of consumption',
+  'Type of supply',
+  'VAT rate type',
+  'VAT rate',
+  'Taxable amount',
+  'VAT amount',
+  'Corrected period',
+];
+
+/**
+ * Rounds an amount to cents
+ */
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Finds the quarter a date falls in
+ * @param date - Date or ISO timestamp
+ * @returns The quarter label, e.g. `2026-Q3` (UTC)
+ */
+export function getQuarter(date: Date | string): string {
+  const value = new Date(date);
+  return `${value.getUTCFullYear()}-Q${Math.floor(value.getUTCMonth() / 3) + 1}`;
+}
+
+/**
+ * Finds the quarter before the one a date falls in, the one due for filing
+ * @param now - Defaults to the current time
+ * @returns The quarter label
+ */
+export function getPreviousQuarter(now: Date = new Date()): string {
+  return getQuarter(new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 3, 1)));
+}
+
+/**
+ * Builds the OSS report of a quarter
+ * @param entries - Order ledger entries
+ * @param quarter - Quarter label, e.g. `2026-Q3`
+ * @param homeCountry - Country the shop is VAT registered in (VAT_HOME_COUNTRY)
+ * @param table - Defaults to VAT_RATES
+ * @returns Rows per member state and rate, with the orders left out
+ */
+export function buildOssReport(
+  entries: OrderLedgerEntry[],
+  quarter: string,
+  homeCountry: string,
+  table: VatRateTable = VAT_RATES,
+): OssReport {
+  const home = homeCountry.toUpperCase();
+  const rows = new Map<string, OssReportRow>();
+  const skipped: OssReport['skipped'] = [];
+  let orders = 0;
+  let refunds = 0;
+
+  const add = (row: OssReportRow) => {
+    const key = [row.type, row.country, row.rate, row.correctedQuarter ?? ''].join('|');
+    const existing = rows.get(key);
+    rows.set(
+      key,
+      existing ? { ...existing, taxable: existing.taxable + row.taxable, vat: existing.vat + row.vat } : row,
+    );
+  };
+
+  entries.forEach(entry => {
+    if (entry.testMode) return;
+
+    const orderQuarter = getQuarter(entry.createdAt);
+    const quarterRefunds = (entry.refunds ?? []).filter(refund => getQuarter(refund.createdAt) === quarter);
+    if (orderQuarter !== quarter && quarterRefunds.length === 0) return;
+
+    const { vat } = entry;
+    if (!vat) {
+      skipped.push({ invoiceNumber: entry.invoiceNumber, reason: 'No VAT recorded for the order' });
+      return;
+    }
+
+    const rules = getVatCountry(vat.country, table);
+    if (rules?.scheme !== 'OSS' || vat.country === home || vat.reverseCharge) return;
+
+    if (vat.currency.toUpperCase() !== 'EUR') {
+      skipped.push({ invoiceNumber: entry.invoiceNumber, reason: `Order in ${vat.currency}, convert to EUR` });
+      return;
+    }
+
+    const rates = vat.amounts.map(({ rate, taxable, amount }) => ({
+      rate,
+      rateType: rate === rules.standard ? ('STANDARD' as const) : ('REDUCED' as const),
+      taxable: vat.pricesIncludeVat ? taxable - amount : taxable,
+      vat: amount,
+    }));
+
+    if (orderQuarter === quarter) {
+      orders += 1;
+      rates.forEach(rate => add({ type: 'SUPPLY', country: vat.country, ...rate }));
+    }
+
+    quarterRefunds.forEach(refund => {
+      refunds += 1;
+      const share = vat.total > 0 ? Math.min(1, refund.amount / vat.total) : 0;
+      const correction = orderQuarter !== quarter;
+
+      rates.forEach(rate =>
+        add({
+          type: correction ? 'CORRECTION' : 'SUPPLY',
+          country: vat.country,
+          ...rate,
+          taxable: -rate.taxable * share,
+          vat: -rate.vat * share,
+          correctedQuarter: correction ? orderQuarter : undefined,
+        }),
+      );
+    });
+  });
+
+  const reportRows = Array.from(rows.values())
+    .map(row => ({ ...row, taxable: roundCents(row.taxable), vat: roundCents(row.vat) }))
+    // Orders refunded in full within the quarter leave nothing to report
+    .filter(row => row.taxable !== 0 || row.vat !== 0)
+    .sort(
+      (a, b) =>
+        // Supplies first, then corrections by quarter
+        b.type.localeCompare(a.type) ||
+        (a.correctedQuarter ?? '').localeCompare(b.correctedQuarter ?? '') ||
+        a.country.localeCompare(b.country) ||
+        b.rate - a.rate,
+    );
+
+  return {
+    quarter,
+    homeCountry: home,
+    rows: reportRows,
+    totals: {
+      taxable: roundCents(reportRows.reduce((total, row) => total + row.taxable, 0)),
+      vat: roundCents(reportRows.reduce((total, row) => total + row.vat, 0)),
+    },
+    orders,
+    refunds,
+    skipped,
+  };
+}
+
+/**
+ * Formats a report as CSV for upload to the OSS portal: semicolon separated,
+ * amounts in euro with two decimals, one row per member state and rate
+ * @param report - Report to export
+ * @returns The CSV file, header row first
+ */
+export function formatOssCsv(report: OssReport): string {
+  const lines = report.rows.map(row =>
+    [
+      row.type,
+      // VAT returns use EL for Greece
+      row.country === 'GR' ? 'EL' : row.country,
+      'GOODS',
+      row.rateType,
+      row.rate.toFixed(2),
+      row.taxable.toFixed(2),
+      row.vat.toFixed(2),
+      row.correctedQuarter ?? '',
+    ].join(';'),
+  );
+  return [OSS_CSV_COLUMNS.join(';'), ...lines].join('\r\n') + '\r\n';
+}
+
+/**
+ * Builds the OSS report of a quarter from the order ledger
+ * @param quarter - Quarter label, e.g. `2026-Q3`
+ * @returns The report
+ * @throws Error if VAT_HOME_COUNTRY is not set
+ */
+export async function getOssReport(quarter: string): Promise<OssReport> {
+  const homeCountry = process.env.VAT_HOME_COUNTRY;
+  if (!homeCountry) {
+    throw new Error('VAT_HOME_COUNTRY is required for the OSS report');
+  }
+  return buildOssReport(await listLedgerEntries(), quarter, homeCountry);
+}
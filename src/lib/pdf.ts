@@ -0,0 +1,168 @@
+/**
+ * Minimal PDF Writer
+ *
+ * Just enough PDF to lay out text documents such as invoices: A4 pages with
+ * text in the standard Helvetica fonts and horizontal rules. The standard
+ * fonts need no embedding, so documents stay small and no PDF library is
+ * needed. Text is WinAnsi encoded, which covers Western European accents and
+ * the euro sign; other characters print as `?`.
+ *
+ * Coordinates are in points from the top-left corner of the page.
+ */
+
+export const PAGE_WIDTH = 595;
+export const PAGE_HEIGHT = 842;
+
+export interface PdfTextOptions {
+  /** Font size in points, defaults to 10. */
+  size?: number;
+  bold?: boolean;
+  /** `right` treats x as the right edge of the text. */
+  align?: 'left' | 'right';
+}
+
+export interface PdfDocument {
+  text(x: number, y: number, value: string, options?: PdfTextOptions): void;
+  /** Draws a horizontal rule. */
+  rule(x1: number, x2: number, y: number): void;
+  /** Width of a string in points, to wrap or align text. */
+  measure(value: string, options?: PdfTextOptions): number;
+  addPage(): void;
+  toBuffer(): Buffer;
+}
+
+// Glyph widths for characters 32-126, in 1/1000 of the font size (Adobe AFM)
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667,
+  556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556,
+  556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722,
+  500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556,
+  556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722,
+  611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556,
+  611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778,
+  556, 556, 500, 389, 280, 389, 584,
+];
+// Accented letters are close enough to the average lowercase width
+const DEFAULT_WIDTH = 556;
+
+// WinAnsi codes of the characters outside Latin-1 that invoices use
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '‚': 0x82,
+  '„': 0x84,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+};
+
+/**
+ * Converts a string to WinAnsi character codes
+ */
+function toWinAnsi(value: string): number[] {
+  return Array.from(value).map(char => {
+    const code = char.charCodeAt(0);
+    if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return code;
+    return WIN_ANSI_EXTRAS[char] ?? 63;
+  });
+}
+
+/**
+ * Escapes WinAnsi codes as a PDF literal string
+ */
+function toPdfString(codes: number[]): string {
+  const body = codes
+    .map(code => {
+      if (code === 40 || code === 41 || code === 92) return `\\${String.fromCharCode(code)}`;
+      return code > 126 ? `\\${code.toString(8).padStart(3, '0')}` : String.fromCharCode(code);
+    })
+    .join('');
+  return `(${body})`;
+}
+
+/**
+ * Formats a coordinate without float noise
+ */
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+/**
+ * Starts an empty document with one page
+ * @returns The document, to draw on and serialise
+ */
+export function createPdfDocument(): PdfDocument {
+  const pages: string[][] = [[]];
+
+  function measure(value: string, { size = 10, bold = false }: PdfTextOptions = {}): number {
+    const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    const units = toWinAnsi(value).reduce(
+      (total, code) => total + (code >= 32 && code <= 126 ? widths[code - 32] : DEFAULT_WIDTH),
+      0,
+    );
+    return (units * size) / 1000;
+  }
+
+  function text(x: number, y: number, value: string, options: PdfTextOptions = {}): void {
+    if (!value) return;
+    const { size = 10, bold = false, align = 'left' } = options;
+    const left = align === 'right' ? x - measure(value, options) : x;
+    pages[pages.length - 1].push(
+      `BT /${bold ? 'F2' : 'F1'} ${num(size)} Tf ${num(left)} ${num(PAGE_HEIGHT - y)} Td ${toPdfString(
+        toWinAnsi(value),
+      )} Tj ET`,
+    );
+  }
+
+  function rule(x1: number, x2: number, y: number): void {
+    const pdfY = num(PAGE_HEIGHT - y);
+    pages[pages.length - 1].push(`0.5 w ${num(x1)} ${pdfY} m ${num(x2)} ${pdfY} l S`);
+  }
+
+  function addPage(): void {
+    pages.push([]);
+  }
+
+  function toBuffer(): Buffer {
+    // Objects 1-4 are shared, then a page and its content stream per page
+    const pageIds = pages.map((_, index) => 5 + index * 2);
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+      ...pages.flatMap((operations, index) => {
+        const content = operations.join('\n');
+        return [
+          `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+            `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+          `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`,
+        ];
+      }),
+    ];
+
+    let output = '%PDF-1.4\n';
+    const offsets = objects.map((object, index) => {
+      const offset = Buffer.byteLength(output, 'latin1');
+      output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+      return offset;
+    });
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  return { text, rule, measure, addPage, toBuffer };
+}
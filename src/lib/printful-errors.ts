@@ -0,0 +1,61 @@
+/**
+ * Printful Errors
+ *
+ * The Printful client throws the parsed body of a failed response rather
+ * than an Error: `{ code, result, error: { reason, message } }` on v1 and
+ * RFC 9457 problem details (`{ status, title, detail }`) on v2. These helpers
+ * read either shape from a caught value without trusting its type.
+ */
+
+/** Fields of a v1 or v2 error body. Every field is checked before use. */
+export interface PrintfulErrorBody {
+  code?: unknown;
+  result?: unknown;
+  error?: unknown;
+  status?: unknown;
+  detail?: unknown;
+  message?: unknown;
+}
+
+/**
+ * Reads a caught value as a Printful error body
+ * @param error - Value thrown by the Printful client, or any other error
+ * @returns The value when it is an object, otherwise an empty body
+ */
+export function toPrintfulErrorBody(error: unknown): PrintfulErrorBody {
+  return typeof error === 'object' && error !== null ? error : {};
+}
+
+/**
+ * Reads the HTTP status of a Printful error
+ * @param error - Value thrown by the Printful client
+ * @returns The v1 `code` or v2 `status`, if there is one
+ */
+export function getPrintfulErrorStatus(error: unknown): number | undefined {
+  const { code, status } = toPrintfulErrorBody(error);
+  if (typeof code === 'number') return code;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Checks whether the Printful client reported a missing resource
+ * @param error - Value thrown by the Printful client
+ * @returns True for 404 responses
+ */
+export function isPrintfulNotFoundError(error: unknown): boolean {
+  return getPrintfulErrorStatus(error) === 404;
+}
+
+/**
+ * Collects the messages of a Printful error, most specific first
+ * @param error - Value thrown by the Printful client, or any other error
+ * @returns The v1 `result` and `error.message`, the v2 `detail` and the
+ *   Error message, where present
+ */
+export function getPrintfulErrorMessages(error: unknown): string[] {
+  const body = toPrintfulErrorBody(error);
+  const nested = toPrintfulErrorBody(body.error);
+  return [body.result, nested.message, body.detail, body.message].filter(
+    (message): message is string => typeof message === 'string' && message !== '',
+  );
+}
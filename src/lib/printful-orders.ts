@@ -0,0 +1,210 @@
+/**
+ * Printful Order Adapter
+ *
+ * The single place that talks to Printful's order endpoints. PRINTFUL_ORDER_API
+ * selects the v1 (default) or v2 API; callers always get the same normalised
+ * order summary back. Payloads come from the pure builders in `order-mapping.ts`.
+ */
+
+import type { PrintfulAddress } from './address';
+import { printful } from './printful-client';
+import { getPrintfulErrorMessages } from './printful-errors';
+import {
+  buildV1OrderPayload,
+  buildV2OrderPayload,
+  mapShippingMethod,
+  type PrintfulOrderApiVersion,
+  type PrintfulV1OrderPayload,
+  type PrintfulV2OrderPayload,
+} from './order-mapping';
+import { resolveVariants } from './variant-cache';
+import type { OrderSubmission, PrintfulShippingItem } from '../types';
+
+export interface PrintfulOrderSummary {
+  id: number;
+  externalId?: string;
+  status: string;
+}
+
+/** Order fields read from Printful's order responses. */
+interface PrintfulOrderData {
+  id: number;
+  external_id?: string;
+  status: string;
+}
+
+/** A v1 order response wraps the order in `result`, a v2 response in `data`. */
+interface PrintfulOrderResponse {
+  result?: PrintfulOrderData;
+  data?: PrintfulOrderData;
+}
+
+/** Printful's cost estimate, amounts in `currency`. */
+export interface PrintfulCostEstimate {
+  currency: string;
+  subtotal: number;
+  shipping: number;
+  /** US sales tax. */
+  tax: number;
+  vat: number;
+  total: number;
+}
+
+/**
+ * Reads the Printful order API version from PRINTFUL_ORDER_API
+ * @returns `v2` when configured, `v1` otherwise
+ */
+export function getOrderApiVersion(): PrintfulOrderApiVersion {
+  return process.env.PRINTFUL_ORDER_API === 'v2' ? 'v2' : 'v1';
+}
+
+/**
+ * Builds the order path for an invoice, using Printful's `@external_id` syntax
+ */
+function orderPath(invoiceNumber: string, version: PrintfulOrderApiVersion): string {
+  const id = `@${encodeURIComponent(invoiceNumber)}`;
+  return version === 'v2' ? `v2/orders/${id}` : `orders/${id}`;
+}
+
+/**
+ * Normalises a v1 (`result`) or v2 (`data`) order response
+ */
+function toOrderSummary({ result, data }: PrintfulOrderResponse): PrintfulOrderSummary {
+  const order = result ?? data;
+  if (!order) {
+    throw new Error('Printful returned no order');
+  }
+  return { id: order.id, externalId: order.external_id, status: order.status };
+}
+
+/**
+ * Resolves variants and builds the order payload for the configured API
+ * @param order - The Snipcart order
+ * @param version - Printful order API version
+ * @returns The order payload
+ */
+export async function buildOrderPayload(
+  order: OrderSubmission,
+  version: PrintfulOrderApiVersion = getOrderApiVersion(),
+): Promise<PrintfulV1OrderPayload | PrintfulV2OrderPayload> {
+  const variants = await resolveVariants(order.items || []);
+  return version === 'v2' ? buildV2OrderPayload(order, variants) : buildV1OrderPayload(order, variants);
+}
+
+/**
+ * Checks whether Printful rejected an order because its external_id is taken
+ * @param error - Error thrown by the Printful client
+ * @returns boolean - True if an order with the same external_id already exists
+ */
+function isDuplicateExternalIdError(error: unknown): boolean {
+  const message = getPrintfulErrorMessages(error).join(' ');
+
+  return /external[ _]?id/i.test(message) && /(already|exists|unique)/i.test(message);
+}
+
+/**
+ * Creates a Printful order for a Snipcart order. On v2 the order is created
+ * as a draft and confirmed by a second request; when that request fails,
+ * the retry finds the draft by its external_id and confirms it.
+ * @param order - The Snipcart order
+ * @param options - `confirm: false` leaves the order as a draft
+ * @returns The created (or already existing) Printful order
+ */
+export async function createPrintfulOrder(
+  order: OrderSubmission,
+  { confirm }: { confirm: boolean },
+): Promise<PrintfulOrderSummary> {
+  const version = getOrderApiVersion();
+  const payload = await buildOrderPayload(order, version);
+
+  try {
+    if (version === 'v2') {
+      const created = toOrderSummary(await printful.post('v2/orders', payload));
+      if (!confirm) return created;
+      return toOrderSummary(await printful.post(`v2/orders/${created.id}/confirmation`, {}));
+    }
+
+    return toOrderSummary(await printful.post(`orders?confirm=${confirm}`, payload));
+  } catch (error) {
+    // The ledger may have been lost while Printful still has the order:
+    // hand back the existing order instead of failing the webhook.
+    if (isDuplicateExternalIdError(error)) {
+      console.warn('Printful already has an order for invoice:', order.invoiceNumber);
+      const existing = await getPrintfulOrder(order.invoiceNumber);
+      return confirm && existing.status === 'draft' ? confirmPrintfulDraft(order.invoiceNumber) : existing;
+    }
+
+    console.error('Error creating Printful order:', error);
+    throw error;
+  }
+}
+
+/**
+ * Fetches the Printful order for an invoice
+ * @param invoiceNumber - Snipcart invoice number (the Printful order external_id)
+ */
+export async function getPrintfulOrder(invoiceNumber: string): Promise<PrintfulOrderSummary> {
+  const version = getOrderApiVersion();
+  return toOrderSummary(await printful.get(orderPath(invoiceNumber, version)));
+}
+
+/**
+ * Confirms a draft Printful order, sending it to production
+ * @param invoiceNumber - Snipcart invoice number (the Printful order external_id)
+ */
+export async function confirmPrintfulDraft(invoiceNumber: string): Promise<PrintfulOrderSummary> {
+  const version = getOrderApiVersion();
+  const action = version === 'v2' ? 'confirmation' : 'confirm';
+  return toOrderSummary(await printful.post(`${orderPath(invoiceNumber, version)}/${action}`, {}));
+}
+
+/**
+ * Cancels a Printful order that has not gone to production yet
+ * @param invoiceNumber - Snipcart invoice number (the Printful order external_id)
+ */
+export async function deletePrintfulOrder(invoiceNumber: string): Promise<void> {
+  await printful.delete(orderPath(invoiceNumber, getOrderApiVersion()));
+}
+
+/**
+ * Estimates the costs of an order without creating it. Printful only offers
+ * synchronous estimates on the v1 API, so this always uses a v1 payload.
+ * @param order - The Snipcart order
+ * @returns The costs block returned by Printful
+ */
+export async function estimatePrintfulOrderCosts(order: OrderSubmission): Promise<Record<string, unknown>> {
+  const payload = await buildOrderPayload(order, 'v1');
+  const { result } = await printful.post('orders/estimate-costs', payload);
+  return result?.costs;
+}
+
+/**
+ * Estimates the costs of a cart before there is an order, e.g. for the tax
+ * quote at checkout. Only the destination and variants are needed.
+ * @param recipient - Normalised destination
+ * @param items - Cart lines
+ * @param shippingRateUserDefinedId - Shipping method chosen in Snipcart
+ * @returns Printful's costs, with amounts as numbers
+ */
+export async function estimatePrintfulCartCosts(
+  recipient: PrintfulAddress,
+  items: PrintfulShippingItem[],
+  shippingRateUserDefinedId?: string,
+): Promise<PrintfulCostEstimate> {
+  const { result } = await printful.post('orders/estimate-costs', {
+    shipping: mapShippingMethod(shippingRateUserDefinedId ?? ''),
+    recipient,
+    items,
+  });
+
+  // v1 returns amounts as strings
+  const costs = result?.costs ?? {};
+  return {
+    currency: costs.currency,
+    subtotal: Number(costs.subtotal ?? 0),
+    shipping: Number(costs.shipping ?? 0),
+    tax: Number(costs.tax ?? 0),
+    vat: Number(costs.vat ?? 0),
+    total: Number(costs.total ?? 0),
+  };
+}
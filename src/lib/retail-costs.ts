@@ -0,0 +1,101 @@
+/**
+ * Retail Costs
+ *
+ * Builds the Printful `retail_costs` block and per-item `retail_price` from
+ * the Snipcart order, so packing slips and customs declarations show what
+ * the customer actually paid, in the order's currency.
+ */
+
+import type { OrderTotals, SnipcartWebhookContent } from '../types';
+
+// The store prices in EUR; only used when Snipcart omits the currency
+export const DEFAULT_CURRENCY = 'EUR';
+
+export interface PrintfulRetailCosts {
+  currency: string;
+  subtotal?: string;
+  discount?: string;
+  shipping?: string;
+  tax?: string;
+  total?: string;
+}
+
+/**
+ * Converts an amount to the two-decimal string format Printful expects
+ * @param amount - Amount in the order currency
+ * @returns The formatted amount, or undefined if the amount is unknown
+ */
+export function formatRetailAmount(amount: unknown): string | undefined {
+  const value = typeof amount === 'string' ? parseFloat(amount) : amount;
+  return typeof value === 'number' && Number.isFinite(value) ? value.toFixed(2) : undefined;
+}
+
+/**
+ * Reads a numeric field, ignoring missing or malformed values
+ */
+function toAmount(value: unknown): number | undefined {
+  const amount = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof amount === 'number' && Number.isFinite(amount) ? amount : undefined;
+}
+
+/**
+ * Reads the total discount of a Snipcart order or cart
+ * @param content - Snipcart order content or `taxes.calculate` cart
+ * @returns `totalDiscounts`, else the sum of the applied discounts
+ */
+export function extractDiscount(content: { totalDiscounts?: unknown; discounts?: unknown }): number | undefined {
+  const discounts: Array<Record<string, unknown>> = Array.isArray(content.discounts) ? content.discounts : [];
+
+  return (
+    toAmount(content.totalDiscounts) ??
+    (discounts.length > 0
+      ? discounts.reduce((total, item) => total + (toAmount(item.amountSaved ?? item.amount) ?? 0), 0)
+      : undefined)
+  );
+}
+
+/**
+ * Extracts the order totals from a Snipcart order payload
+ * @param content - Snipcart webhook content for an order
+ * @returns Currency and totals in the order currency
+ */
+export function extractOrderTotals(content: SnipcartWebhookContent): OrderTotals {
+  const taxes: Array<Record<string, unknown>> = Array.isArray(content.taxes) ? content.taxes : [];
+
+  const discount = extractDiscount(content);
+
+  const tax =
+    toAmount(content.taxesTotal) ??
+    (taxes.length > 0
+      ? taxes.reduce((total, item) => total + (toAmount(item.amount) ?? 0), 0)
+      : undefined);
+
+  return {
+    currency: typeof content.currency === 'string' ? content.currency.toUpperCase() : DEFAULT_CURRENCY,
+    subtotal: toAmount(content.itemsTotal) ?? toAmount(content.subtotal),
+    discount,
+    shipping: toAmount(content.shippingFees) ?? toAmount(content.shippingInformation?.fees),
+    tax,
+    total: toAmount(content.grandTotal) ?? toAmount(content.finalGrandTotal),
+  };
+}
+
+/**
+ * Builds the Printful `retail_costs` block
+ * @param totals - Order totals, if known
+ * @returns The retail costs; only the currency when no totals are known
+ */
+export function buildRetailCosts(totals?: OrderTotals): PrintfulRetailCosts {
+  if (!totals) {
+    return { currency: DEFAULT_CURRENCY };
+  }
+
+  return {
+    currency: totals.currency,
+    subtotal: formatRetailAmount(totals.subtotal),
+    discount: formatRetailAmount(totals.discount),
+    shipping: formatRetailAmount(totals.shipping),
+    tax: formatRetailAmount(totals.tax),
+    total: formatRetailAmount(totals.total),
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * Shipping Configuration
+ *
+ * Merchandising rules applied to Printful's shipping rates before they are
+ * offered in the Snipcart checkout (see `shipping-rules.ts`), the fallback
+ * table used when Printful cannot quote (see `shipping-fallback.ts`) and the
+ * countries products may ship to (see `destination-policy.ts`).
+ * Everything in here is plain data: edit it to change shipping prices, no
+ * code required.
+ *
+ * Countries are ISO 3166-1 alpha-2 codes; anywhere a country list is
+ * accepted, a region name from SHIPPING_REGIONS may be used instead.
+ * Methods are Printful shipping method IDs (STANDARD, EXPRESS, ...).
+ */
+
+export interface FreeShippingRule {
+  /** Cart currency the threshold is expressed in. */
+  currency: string;
+  /** Minimum cart subtotal, after discounts, for free shipping. */
+  threshold: number;
+  /** Methods that become free, defaults to STANDARD. */
+  methods?: string[];
+  /** Destinations the rule applies to, defaults to everywhere. */
+  countries?: string[];
+}
+
+export interface FlatRateRule {
+  countries: string[];
+  method: string;
+  /** Replaces the Printful price for the method. */
+  cost: number;
+}
+
+export interface MarkupRule {
+  countries?: string[];
+  methods?: string[];
+  /** Percentage added to the Printful price, e.g. 10 for +10%. */
+  percent?: number;
+  /** Fixed amount added after the percentage. */
+  fixed?: number;
+}
+
+export interface HiddenMethodRule {
+  countries: string[];
+  methods: string[];
+}
+
+export interface ShippingRulesConfig {
+  /** Methods never offered to these destinations. */
+  hiddenMethods: HiddenMethodRule[];
+  /** Fixed prices that replace Printful's rate. Not marked up or rounded. */
+  flatRates: FlatRateRule[];
+  /** Applied in order to every matching rate that is not a flat rate. */
+  markups: MarkupRule[];
+  /** Price endings to round marked-up prices up to, e.g. [0.5, 0.95]. Empty to disable. */
+  roundTo: number[];
+  freeShipping: FreeShippingRule[];
+}
+
+export interface FallbackRateTier {
+  /** Highest item count the cost applies to; leave out on the last tier. */
+  upToItems?: number;
+  cost: number;
+}
+
+export interface FallbackShippingRate {
+  /** Printful shipping method, so the order is fulfilled with it. */
+  method: string;
+  name: string;
+  /** Costs by number of items in the cart, lowest tier first. */
+  tiers: FallbackRateTier[];
+  minDeliveryDays?: number;
+  maxDeliveryDays?: number;
+}
+
+export interface FallbackShippingZone {
+  name: string;
+  /** Countries or regions; leave out for the rest-of-world zone. */
+  countries?: string[];
+  rates: FallbackShippingRate[];
+}
+
+export interface DestinationRestriction {
+  /** Only these destinations are served; leave out to serve everywhere. */
+  allowedCountries?: string[];
+  /** Never served, even if allowed above. */
+  blockedCountries?: string[];
+}
+
+export interface DestinationPolicyConfig extends DestinationRestriction {
+  /**
+   * Additional restrictions per product, keyed by Printful sync product ID
+   * (the ID in the `/product/<id>` URL).
+   */
+  products: Record<string, DestinationRestriction>;
+}
+
+export const SHIPPING_REGIONS: Record<string, string[]> = {
+  EU: [
+    'AT', 'BE', 'BG', 'CY', 'CZ', 'DE', 'DK', 'EE', 'ES', 'FI', 'FR', 'GR', 'HR', 'HU',
+    'IE', 'IT', 'LT', 'LU', 'LV', 'MT', 'NL', 'PL', 'PT', 'RO', 'SE', 'SI', 'SK',
+  ],
+  UK: ['GB'],
+  US: ['US'],
+  NORTH_AMERICA: ['US', 'CA'],
+};
+
+/**
+ * Shipping rules for the shop. With every list empty, Printful's rates are
+ * offered unchanged. Example:
+ *
+ *   freeShipping: [{ currency: 'EUR', threshold: 75, countries: ['EU'] }],
+ *   flatRates: [{ countries: ['BE'], method: 'STANDARD', cost: 3.95 }],
+ *   markups: [{ percent: 10 }, { methods: ['EXPRESS'], fixed: 2 }],
+ *   roundTo: [0.5, 0.95],
+ *   hiddenMethods: [{ countries: ['UK'], methods: ['ECONOMY'] }],
+ */
+export const SHIPPING_RULES: ShippingRulesConfig = {
+  hiddenMethods: [],
+  flatRates: [],
+  markups: [],
+  roundTo: [],
+  freeShipping: [],
+};
+
+/**
+ * Flat rates quoted when Printful's live rates are unavailable and nothing is
+ * cached. Costs estimate what Printful would charge; the shipping rules above
+ * still apply to them. Zones are matched in order, the last one catches every
+ * other country. The STANDARD delivery days also set the order cutoffs of
+ * the delivery deadline banner (see `delivery-dates.ts`).
+ */
+export const FALLBACK_SHIPPING_ZONES: FallbackShippingZone[] = [
+  {
+    name: 'EU',
+    countries: ['EU'],
+    rates: [
+      {
+        method: 'STANDARD',
+        name: 'Standard',
+        tiers: [{ upToItems: 1, cost: 4.99 }, { upToItems: 3, cost: 6.99 }, { cost: 9.99 }],
+        minDeliveryDays: 4,
+        maxDeliveryDays: 8,
+      },
+    ],
+  },
+  {
+    name: 'UK',
+    countries: ['UK'],
+    rates: [
+      {
+        method: 'STANDARD',
+        name: 'Standard',
+        tiers: [{ upToItems: 1, cost: 5.99 }, { upToItems: 3, cost: 7.99 }, { cost: 10.99 }],
+        minDeliveryDays: 4,
+        maxDeliveryDays: 8,
+      },
+    ],
+  },
+  {
+    name: 'US',
+    countries: ['US'],
+    rates: [
+      {
+        method: 'STANDARD',
+        name: 'Standard',
+        tiers: [{ upToItems: 1, cost: 4.99 }, { upToItems: 3, cost: 7.49 }, { cost: 9.99 }],
+        minDeliveryDays: 5,
+        maxDeliveryDays: 10,
+      },
+    ],
+  },
+  {
+    name: 'Rest of world',
+    rates: [
+      {
+        method: 'STANDARD',
+        name: 'Standard',
+        tiers: [{ upToItems: 1, cost: 9.99 }, { upToItems: 3, cost: 13.99 }, { cost: 17.99 }],
+        minDeliveryDays: 7,
+        maxDeliveryDays: 20,
+      },
+    ],
+  },
+];
+
+/**
+ * Where products may be shipped. The global lists apply to every product,
+ * product entries narrow them further. Example:
+ *
+ *   products: { '123456789': { allowedCountries: ['EU', 'UK'] } },
+ */
+export const DESTINATION_POLICY: DestinationPolicyConfig = {
+  // Printful does not ship to these countries
+  blockedCountries: ['BY', 'CU', 'IR', 'KP', 'RU', 'SY'],
+  products: {},
+};
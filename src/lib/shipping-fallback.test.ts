@@ -0,0 +1,76 @@
+import type { FallbackShippingZone } from './shipping-config';
+import { findFallbackZone, getFallbackShippingRates } from './shipping-fallback';
+
+const zones: FallbackShippingZone[] = [
+  {
+    name: 'Benelux',
+    countries: ['BE', 'NL', 'LU'],
+    rates: [
+      { method: 'STANDARD', name: 'Standard', tiers: [{ upToItems: 2, cost: 3.5 }, { cost: 6 }] },
+      { method: 'EXPRESS', name: 'Express', tiers: [{ upToItems: 1, cost: 9 }] },
+    ],
+  },
+  {
+    name: 'EU',
+    countries: ['EU'],
+    rates: [{ method: 'STANDARD', name: 'Standard', tiers: [{ cost: 7 }], minDeliveryDays: 4, maxDeliveryDays: 8 }],
+  },
+];
+
+function check(label: string, success: boolean): boolean {
+  console.log(`${label}: ${success ? '✅' : '❌'}`);
+  return success;
+}
+
+// Test which zone a destination falls into
+export function testZoneLookup() {
+  console.log('Testing fallback zone lookup...\n');
+
+  const results = [
+    check('country listed by code matches its zone', findFallbackZone('NL', zones)?.name === 'Benelux'),
+    check('first matching zone wins', findFallbackZone('BE', zones)?.name === 'Benelux'),
+    check('region name matches its countries', findFallbackZone('DE', zones)?.name === 'EU'),
+    check('no zone without a catch-all', findFallbackZone('US', zones) === undefined),
+    check('default table covers the EU', findFallbackZone('FR')?.name === 'EU'),
+    check('default table covers the UK', findFallbackZone('GB')?.name === 'UK'),
+    check('default table covers the US', findFallbackZone('US')?.name === 'US'),
+    check('default table falls back to rest of world', findFallbackZone('JP')?.name === 'Rest of world'),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Test the rate tiers picked for the item count
+export function testZoneRates() {
+  console.log('Testing fallback zone rates...\n');
+
+  const single = getFallbackShippingRates('BE', 1, zones);
+  const pair = getFallbackShippingRates('BE', 2, zones);
+  const bulk = getFallbackShippingRates('BE', 5, zones);
+  const eu = getFallbackShippingRates('DE', 3, zones);
+  const defaults = getFallbackShippingRates('DE', 4);
+
+  const results = [
+    check('zone name is reported', single?.zone === 'Benelux'),
+    check('every method is quoted for one item', single?.rates.map(rate => rate.method).join() === 'STANDARD,EXPRESS'),
+    check('smallest tier covering the count is used', single?.rates[0].cost === 3.5 && pair?.rates[0].cost === 3.5),
+    check('open-ended tier covers larger carts', bulk?.rates[0].cost === 6),
+    check('method without a tier for the count is left out', bulk?.rates.length === 1),
+    check(
+      'delivery estimate is passed on',
+      eu?.rates[0].minDeliveryDays === 4 && eu?.rates[0].maxDeliveryDays === 8,
+    ),
+    check('default table quotes large EU carts', defaults?.rates[0].cost === 9.99),
+    check('unmatched destination has no quote', getFallbackShippingRates('US', 1, zones) === undefined),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Run tests if this file is executed directly
+if (typeof window === 'undefined' && require.main === module) {
+  testZoneLookup();
+  testZoneRates();
+}
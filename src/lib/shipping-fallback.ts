@@ -0,0 +1,109 @@
+/**
+ * Fallback Shipping Rates
+ *
+ * When Printful's `shipping/rates` fails and no cached rates exist, the
+ * checkout is quoted from the zone table in `shipping-config.ts` instead of
+ * being blocked. Every fallback quote is stored in
+ * `<DATA_DIR>/shipping-fallback-quotes.json` so the difference with what
+ * Printful later charges can be reconciled.
+ */
+
+import { createJsonStore } from './json-store';
+import { FALLBACK_SHIPPING_ZONES, type FallbackShippingZone } from './shipping-config';
+import { matchesCountry, type QuotedShippingRate } from './shipping-rules';
+import type { PrintfulShippingItem } from '../types';
+
+export interface FallbackQuote {
+  quotedAt: string;
+  country: string;
+  zone: string;
+  items: PrintfulShippingItem[];
+  itemCount: number;
+  currency: string;
+  /** Rates offered to the customer, after the shipping rules. */
+  rates: QuotedShippingRate[];
+  /** Why the live Printful rates were unavailable. */
+  reason: string;
+}
+
+// Keeps the log bounded; reconcile and clear it regularly
+const MAX_LOGGED_QUOTES = 1000;
+
+const quoteStore = createJsonStore<FallbackQuote[]>('shipping-fallback-quotes', () => []);
+
+/**
+ * Finds the zone for a destination
+ * @param country - ISO 3166-1 alpha-2 country code
+ * @param zones - Zone table, defaults to FALLBACK_SHIPPING_ZONES
+ * @returns The first matching zone, or undefined if the table has no catch-all
+ */
+export function findFallbackZone(
+  country: string,
+  zones: FallbackShippingZone[] = FALLBACK_SHIPPING_ZONES,
+): FallbackShippingZone | undefined {
+  return zones.find(zone => matchesCountry(country, zone.countries));
+}
+
+/**
+ * Quotes shipping from the fallback table
+ * @param country - ISO 3166-1 alpha-2 country code
+ * @param itemCount - Total quantity in the cart
+ * @param zones - Zone table, defaults to FALLBACK_SHIPPING_ZONES
+ * @returns The zone and its rates for the item count, or undefined if no zone matches
+ */
+export function getFallbackShippingRates(
+  country: string,
+  itemCount: number,
+  zones: FallbackShippingZone[] = FALLBACK_SHIPPING_ZONES,
+): { zone: string; rates: QuotedShippingRate[] } | undefined {
+  const zone = findFallbackZone(country, zones);
+  if (!zone) return undefined;
+
+  const rates = zone.rates.flatMap(rate => {
+    const tier = rate.tiers.find(candidate => candidate.upToItems === undefined || itemCount <= candidate.upToItems);
+    return tier
+      ? [
+          {
+            method: rate.method,
+            name: rate.name,
+            cost: tier.cost,
+            minDeliveryDays: rate.minDeliveryDays,
+            maxDeliveryDays: rate.maxDeliveryDays,
+          },
+        ]
+      : [];
+  });
+
+  return { zone: zone.name, rates };
+}
+
+/**
+ * Logs a fallback quote for later reconciliation
+ * @param quote - The quote, without its timestamp
+ */
+export async function recordFallbackQuote(quote: Omit<FallbackQuote, 'quotedAt'>): Promise<void> {
+  const entry: FallbackQuote = { quotedAt: new Date().toISOString(), ...quote };
+  console.warn('Served fallback shipping quote:', {
+    country: entry.country,
+    zone: entry.zone,
+    itemCount: entry.itemCount,
+    rates: entry.rates.map(rate => `${rate.method}=${rate.cost}`),
+    reason: entry.reason,
+  });
+
+  try {
+    await quoteStore.update(quotes => {
+      quotes.push(entry);
+      return quotes.slice(-MAX_LOGGED_QUOTES);
+    });
+  } catch (error) {
+    console.error('Failed to record fallback shipping quote:', error);
+  }
+}
+
+/**
+ * Lists logged fallback quotes, newest first
+ */
+export async function listFallbackQuotes(): Promise<FallbackQuote[]> {
+  return (await quoteStore.read()).slice().reverse();
+}
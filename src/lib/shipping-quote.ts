@@ -0,0 +1,100 @@
+/**
+ * Shipping Quotes
+ *
+ * The full pipeline behind every shipping price shown to a customer, shared
+ * by the Snipcart checkout and the product page estimator:
+ * 1. Printful rates, cached per destination and cart (`shipping-rate-cache.ts`)
+ * 2. the fallback table when Printful is unavailable (`shipping-fallback.ts`)
+ * 3. the merchandising rules (`shipping-rules.ts`)
+ * 4. delivery dates, including production time (`delivery-dates.ts`)
+ */
+
+import type { PrintfulAddress } from './address';
+import { getDeliveryWindow, getFulfillmentDays, type DeliveryWindow } from './delivery-dates';
+import { getFallbackShippingRates, recordFallbackQuote } from './shipping-fallback';
+import { getShippingRates, type ShippingRateSource } from './shipping-rate-cache';
+import { applyShippingRules, type QuotedShippingRate, type ShippingRuleContext } from './shipping-rules';
+import { getCachedProductNames } from './variant-cache';
+import type { PrintfulShippingItem } from '../types';
+
+export interface DatedShippingRate extends QuotedShippingRate {
+  /** When an order placed today arrives, if Printful gave a transit time. */
+  delivery?: DeliveryWindow;
+}
+
+export interface ShippingQuote {
+  rates: DatedShippingRate[];
+  source: ShippingRateSource | 'fallback';
+}
+
+export interface ShippingQuoteOptions {
+  /** Store fallback quotes for reconciliation; only checkout quotes need it. */
+  recordFallback?: boolean;
+}
+
+/**
+ * Quotes shipping for a destination and cart
+ * @param recipient - Normalised destination
+ * @param items - Cart lines
+ * @param context - Cart currency and subtotal, for the shipping rules
+ * @param options - See ShippingQuoteOptions
+ * @returns The rates to offer and where the prices came from
+ * @throws The Printful error when it fails and neither cached nor fallback rates exist
+ */
+export async function quoteShipping(
+  recipient: PrintfulAddress,
+  items: PrintfulShippingItem[],
+  context: Omit<ShippingRuleContext, 'country'>,
+  options: ShippingQuoteOptions = {},
+): Promise<ShippingQuote> {
+  const country = recipient.country_code;
+  const itemCount = items.reduce((total, item) => total + item.quantity, 0);
+
+  let printfulRates: QuotedShippingRate[];
+  let source: ShippingQuote['source'];
+  let fallbackZone: string | undefined;
+  let fallbackReason = '';
+
+  try {
+    const lookup = await getShippingRates(recipient, items);
+    printfulRates = lookup.rates.map(rate => ({
+      method: rate.id,
+      name: rate.name,
+      cost: Number(rate.rate),
+      minDeliveryDays: rate.minDeliveryDays,
+      maxDeliveryDays: rate.maxDeliveryDays,
+    }));
+    source = lookup.source;
+  } catch (error) {
+    // Printful is down and nothing is cached: quote from the fallback table
+    const fallback = getFallbackShippingRates(country, itemCount);
+    if (!fallback || fallback.rates.length === 0) {
+      throw error;
+    }
+    printfulRates = fallback.rates;
+    source = 'fallback';
+    fallbackZone = fallback.zone;
+    fallbackReason = error instanceof Error ? error.message : String(error);
+  }
+
+  const rates = applyShippingRules(printfulRates, { ...context, country });
+
+  if (fallbackZone && options.recordFallback) {
+    await recordFallbackQuote({
+      country,
+      zone: fallbackZone,
+      items,
+      itemCount,
+      currency: context.currency,
+      rates,
+      reason: fallbackReason,
+    });
+  }
+
+  const fulfillmentDays = getFulfillmentDays(
+    await getCachedProductNames(items.map(item => item.external_variant_id)),
+  );
+  const datedRates = rates.map(rate => ({ ...rate, delivery: getDeliveryWindow(rate, fulfillmentDays) }));
+
+  return { rates: datedRates, source };
+}
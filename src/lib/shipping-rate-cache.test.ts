@@ -0,0 +1,125 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import type { PrintfulAddress } from './address';
+import type { PrintfulShippingItem, PrintfulShippingRate } from '../types';
+
+function check(label: string, success: boolean): boolean {
+  console.log(`${label}: ${success ? '✅' : '❌'}`);
+  return success;
+}
+
+const berlin: PrintfulAddress = {
+  address1: '1 Main Street',
+  city: 'Berlin',
+  country_code: 'DE',
+  zip: '10115',
+};
+
+const items: PrintfulShippingItem[] = [
+  { external_variant_id: 'shirt-m', quantity: 1 },
+  { external_variant_id: 'mug', quantity: 2 },
+];
+
+const standardRate: PrintfulShippingRate = { id: 'STANDARD', name: 'Standard', rate: '4.99', currency: 'EUR' };
+
+// Test which parts of a quote change the cache key
+export async function testCacheKey() {
+  console.log('Testing shipping rate cache keys...\n');
+
+  // The Printful client checks its API key on import
+  Object.assign(process.env, { NODE_ENV: 'test', PRINTFUL_API_KEY: 'test-key' });
+  const { getShippingRateCacheKey } = await import('./shipping-rate-cache');
+
+  const key = getShippingRateCacheKey(berlin, items);
+
+  const results = [
+    check('same quote gives the same key', getShippingRateCacheKey({ ...berlin }, [...items]) === key),
+    check('line order is ignored', getShippingRateCacheKey(berlin, [items[1], items[0]]) === key),
+    check(
+      'split lines of one variant are merged',
+      getShippingRateCacheKey(berlin, [
+        items[0],
+        { external_variant_id: 'mug', quantity: 1 },
+        { external_variant_id: 'mug', quantity: 1 },
+      ]) === key,
+    ),
+    check('street address is ignored', getShippingRateCacheKey({ ...berlin, address1: '2 Side Street' }, items) === key),
+    check('spaces in the postal code are ignored', getShippingRateCacheKey({ ...berlin, zip: '101 15' }, items) === key),
+    check('postal code changes the key', getShippingRateCacheKey({ ...berlin, zip: '80331' }, items) !== key),
+    check('country changes the key', getShippingRateCacheKey({ ...berlin, country_code: 'AT' }, items) !== key),
+    check('state changes the key', getShippingRateCacheKey({ ...berlin, state_code: 'BE' }, items) !== key),
+    check(
+      'quantity changes the key',
+      getShippingRateCacheKey(berlin, [items[0], { external_variant_id: 'mug', quantity: 3 }]) !== key,
+    ),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Test that cached rates are served for the TTL and kept as a fallback after it
+export async function testCacheLifetime() {
+  console.log('Testing shipping rate cache lifetime...\n');
+
+  const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'shipping-rates-'));
+  process.env.DATA_DIR = dataDir;
+  Object.assign(process.env, { NODE_ENV: 'test', PRINTFUL_API_KEY: 'test-key' });
+  const { printful } = await import('./printful-client');
+  const { getShippingRateMetrics, getShippingRates } = await import('./shipping-rate-cache');
+
+  let calls = 0;
+  let available = true;
+  printful.post = async () => {
+    calls += 1;
+    return available ? { code: 200, result: [standardRate] } : Promise.reject({ code: 503, result: 'Unavailable' });
+  };
+
+  try {
+    const first = await getShippingRates(berlin, items);
+    const second = await getShippingRates(berlin, items);
+    const callsWithinTtl = calls;
+
+    process.env.SHIPPING_RATE_CACHE_TTL_MINUTES = '0';
+    const expired = await getShippingRates(berlin, items);
+    const callsAfterTtl = calls;
+
+    available = false;
+    const stale = await getShippingRates(berlin, items);
+    const metrics = await getShippingRateMetrics();
+
+    let unknownFailed = false;
+    try {
+      await getShippingRates({ ...berlin, country_code: 'FR', zip: '75001' }, items);
+    } catch {
+      unknownFailed = true;
+    }
+
+    const results = [
+      check('first quote is fetched', first.source === 'live' && first.rates[0]?.id === 'STANDARD'),
+      check('repeated quote is served from the cache', second.source === 'cache'),
+      check('cached quote does not call Printful', callsWithinTtl === 1),
+      check('expired quote is fetched again', expired.source === 'live' && callsAfterTtl === 2),
+      check('last known rates are served when Printful fails', stale.source === 'stale' && stale.rates.length === 1),
+      check('cache hit is counted', metrics.hits === 1),
+      check('misses and errors are counted', metrics.misses === 3 && metrics.errors === 1 && metrics.staleHits === 1),
+      check('failure without earlier rates is raised', unknownFailed),
+    ];
+
+    console.log('');
+    return results.every(Boolean);
+  } finally {
+    delete process.env.SHIPPING_RATE_CACHE_TTL_MINUTES;
+    await fs.rm(dataDir, { recursive: true, force: true });
+  }
+}
+
+// Run tests if this file is executed directly
+if (typeof window === 'undefined' && require.main === module) {
+  (async () => {
+    await testCacheKey();
+    await testCacheLifetime();
+  })();
+}
@@ -0,0 +1,208 @@
+/**
+ * Shipping Rate Cache
+ *
+ * Snipcart asks for shipping rates every time the customer touches the
+ * checkout, usually for the same destination and cart. Printful rates are
+ * cached per destination (country, state, postal code) and cart (variants
+ * and quantities) for SHIPPING_RATE_CACHE_TTL_MINUTES. When Printful fails
+ * or does not answer within SHIPPING_RATE_TIMEOUT_MS, the last rates that
+ * were fetched successfully for the same key are served instead.
+ */
+
+import { createHash } from 'crypto';
+
+import type { PrintfulAddress } from './address';
+import { createJsonStore } from './json-store';
+import { printful } from './printful-client';
+import type { PrintfulShippingItem, PrintfulShippingRate } from '../types';
+
+export type ShippingRateSource = 'live' | 'cache' | 'stale';
+
+export interface ShippingRateLookup {
+  rates: PrintfulShippingRate[];
+  source: ShippingRateSource;
+}
+
+export interface ShippingRateMetrics {
+  hits: number;
+  misses: number;
+  /** Last known good rates served because Printful failed. */
+  staleHits: number;
+  /** Printful failures, whether or not stale rates could be served. */
+  errors: number;
+  since: string;
+}
+
+interface CachedRates {
+  rates: PrintfulShippingRate[];
+  cachedAt: string;
+}
+
+interface ShippingRateStore {
+  entries: Record<string, CachedRates>;
+  metrics: ShippingRateMetrics;
+}
+
+const DEFAULT_TTL_MINUTES = 15;
+const DEFAULT_TIMEOUT_MS = 5000;
+// Last known good rates older than this are too far off to be useful
+const MAX_STALE_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const rateStore = createJsonStore<ShippingRateStore>('shipping-rates', () => ({
+  entries: {},
+  metrics: { hits: 0, misses: 0, staleHits: 0, errors: 0, since: new Date().toISOString() },
+}));
+
+// Cache hits are counted here and written with the next miss, so serving
+// from the cache never writes the store
+let pendingHits = 0;
+
+/**
+ * Adds the hits counted since the last write to the stored metrics
+ */
+function flushPendingHits(store: ShippingRateStore): void {
+  store.metrics.hits += pendingHits;
+  pendingHits = 0;
+}
+
+/**
+ * Reads the cache lifetime from SHIPPING_RATE_CACHE_TTL_MINUTES
+ */
+function getTtlMs(): number {
+  const minutes = Number(process.env.SHIPPING_RATE_CACHE_TTL_MINUTES);
+  return (Number.isFinite(minutes) && minutes >= 0 ? minutes : DEFAULT_TTL_MINUTES) * 60 * 1000;
+}
+
+/**
+ * Reads the Printful timeout from SHIPPING_RATE_TIMEOUT_MS
+ */
+function getTimeoutMs(): number {
+  const timeout = Number(process.env.SHIPPING_RATE_TIMEOUT_MS);
+  return Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_TIMEOUT_MS;
+}
+
+/**
+ * Builds the cache key for a destination and cart. Address lines and the
+ * order of cart lines do not affect Printful's rates, so they are left out.
+ * @param recipient - Normalised destination
+ * @param items - Cart lines
+ * @returns Hex digest identifying the quote
+ */
+export function getShippingRateCacheKey(recipient: PrintfulAddress, items: PrintfulShippingItem[]): string {
+  const quantities = new Map<string, number>();
+  items.forEach(item => {
+    quantities.set(item.external_variant_id, (quantities.get(item.external_variant_id) ?? 0) + item.quantity);
+  });
+
+  const normalized = {
+    country: recipient.country_code,
+    state: recipient.state_code ?? '',
+    zip: (recipient.zip ?? '').replace(/\s/g, ''),
+    items: Array.from(quantities.entries()).sort(([a], [b]) => a.localeCompare(b)),
+  };
+
+  return createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+}
+
+/**
+ * Calls Printful, giving up after the configured timeout
+ */
+async function fetchLiveRates(
+  recipient: PrintfulAddress,
+  items: PrintfulShippingItem[],
+): Promise<PrintfulShippingRate[]> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('Printful shipping rates timed out')), getTimeoutMs());
+  });
+
+  try {
+    const { result } = await Promise.race([printful.post('shipping/rates', { recipient, items }), timeout]);
+    return result;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Returns Printful shipping rates for a destination and cart, from the cache
+ * when possible
+ * @param recipient - Normalised destination
+ * @param items - Cart lines
+ * @returns The rates and where they came from
+ * @throws The Printful error when it fails and no earlier rates are known
+ */
+export async function getShippingRates(
+  recipient: PrintfulAddress,
+  items: PrintfulShippingItem[],
+): Promise<ShippingRateLookup> {
+  const key = getShippingRateCacheKey(recipient, items);
+  const now = Date.now();
+
+  const { entries } = await rateStore.read();
+  const cached = entries[key];
+  if (cached && now - new Date(cached.cachedAt).getTime() < getTtlMs()) {
+    pendingHits += 1;
+    return { rates: cached.rates, source: 'cache' };
+  }
+
+  try {
+    const rates = await fetchLiveRates(recipient, items);
+    await rateStore.update(store => {
+      flushPendingHits(store);
+      store.metrics.misses += 1;
+      store.entries[key] = { rates, cachedAt: new Date(now).toISOString() };
+      pruneEntries(store, now);
+    });
+    return { rates, source: 'live' };
+  } catch (error) {
+    const stale = cached && now - new Date(cached.cachedAt).getTime() < MAX_STALE_AGE_MS;
+    await rateStore.update(store => {
+      flushPendingHits(store);
+      store.metrics.misses += 1;
+      store.metrics.errors += 1;
+      if (stale) store.metrics.staleHits += 1;
+    });
+
+    if (!stale) {
+      throw error;
+    }
+
+    console.warn('Printful shipping rates failed, serving last known good rates:', {
+      cachedAt: cached.cachedAt,
+      error: error instanceof Error ? error.message : error,
+    });
+    return { rates: cached.rates, source: 'stale' };
+  }
+}
+
+/**
+ * Drops entries too old to be served even as last known good rates
+ */
+function pruneEntries(store: ShippingRateStore, now: number): void {
+  for (const [key, entry] of Object.entries(store.entries)) {
+    if (now - new Date(entry.cachedAt).getTime() >= MAX_STALE_AGE_MS) {
+      delete store.entries[key];
+    }
+  }
+}
+
+/**
+ * Reports cache hit and miss counters
+ * @returns The metrics and the number of cached quotes
+ */
+export async function getShippingRateMetrics(): Promise<ShippingRateMetrics & { entries: number }> {
+  const { entries, metrics } = await rateStore.read();
+  return { ...metrics, hits: metrics.hits + pendingHits, entries: Object.keys(entries).length };
+}
+
+/**
+ * Empties the cache and restarts the metrics
+ */
+export async function clearShippingRateCache(): Promise<void> {
+  pendingHits = 0;
+  await rateStore.update(() => ({
+    entries: {},
+    metrics: { hits: 0, misses: 0, staleHits: 0, errors: 0, since: new Date().toISOString() },
+  }));
+}
@@ -0,0 +1,100 @@
+import type { ShippingRulesConfig } from './shipping-config';
+import { applyShippingRules, matchesCountry, roundToEnding, type QuotedShippingRate } from './shipping-rules';
+
+const printfulRates: QuotedShippingRate[] = [
+  { method: 'STANDARD', name: 'Flat Rate', cost: 4.39, maxDeliveryDays: 7 },
+  { method: 'EXPRESS', name: 'Express', cost: 12.2, maxDeliveryDays: 3 },
+  { method: 'ECONOMY', name: 'Economy', cost: 3.1, maxDeliveryDays: 14 },
+];
+
+const noRules: ShippingRulesConfig = {
+  hiddenMethods: [],
+  flatRates: [],
+  markups: [],
+  roundTo: [],
+  freeShipping: [],
+};
+
+function check(label: string, success: boolean): boolean {
+  console.log(`${label}: ${success ? '✅' : '❌'}`);
+  return success;
+}
+
+function costOf(rates: QuotedShippingRate[], method: string): number | undefined {
+  return rates.find(rate => rate.method === method)?.cost;
+}
+
+// Test each rule type on its own
+export function testIndividualRules() {
+  console.log('Testing individual shipping rules...\n');
+
+  const belgium = { country: 'BE', currency: 'EUR', subtotal: 40 };
+
+  const unchanged = applyShippingRules(printfulRates, belgium, noRules);
+  const free = applyShippingRules(
+    printfulRates,
+    { ...belgium, subtotal: 80 },
+    { ...noRules, freeShipping: [{ currency: 'EUR', threshold: 75, countries: ['EU'] }] },
+  );
+  const freeOtherCurrency = applyShippingRules(
+    printfulRates,
+    { ...belgium, currency: 'USD', subtotal: 80 },
+    { ...noRules, freeShipping: [{ currency: 'EUR', threshold: 75 }] },
+  );
+  const flat = applyShippingRules(printfulRates, belgium, {
+    ...noRules,
+    flatRates: [{ countries: ['BE'], method: 'STANDARD', cost: 3.95 }],
+    markups: [{ percent: 50 }],
+  });
+  const markedUp = applyShippingRules(printfulRates, belgium, {
+    ...noRules,
+    markups: [{ percent: 10 }, { methods: ['EXPRESS'], fixed: 2 }],
+  });
+  const hidden = applyShippingRules(printfulRates, { ...belgium, country: 'GB' }, {
+    ...noRules,
+    hiddenMethods: [{ countries: ['UK'], methods: ['ECONOMY'] }],
+  });
+
+  const results = [
+    check('no rules leaves rates unchanged', JSON.stringify(unchanged) === JSON.stringify(printfulRates)),
+    check('free standard shipping above threshold', costOf(free, 'STANDARD') === 0 && costOf(free, 'EXPRESS') === 12.2),
+    check('threshold only applies to its currency', costOf(freeOtherCurrency, 'STANDARD') === 4.39),
+    check('flat rate replaces price and skips markup', costOf(flat, 'STANDARD') === 3.95),
+    check('percentage markup', costOf(markedUp, 'STANDARD') === 4.83),
+    check('percentage then fixed markup', costOf(markedUp, 'EXPRESS') === 15.42),
+    check('method hidden for region', hidden.length === 2 && costOf(hidden, 'ECONOMY') === undefined),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Test rounding and region matching
+export function testRoundingAndRegions() {
+  console.log('Testing rounding and regions...\n');
+
+  const rounded = applyShippingRules(
+    printfulRates,
+    { country: 'DE', currency: 'EUR', subtotal: 10 },
+    { ...noRules, markups: [{ fixed: 0.5 }], roundTo: [0.5, 0.95] },
+  );
+
+  const results = [
+    check('rounds up to .50', roundToEnding(4.12, [0.5, 0.95]) === 4.5),
+    check('rounds up to .95', roundToEnding(4.6, [0.5, 0.95]) === 4.95),
+    check('rounds into next unit', roundToEnding(4.96, [0.5, 0.95]) === 5.5),
+    check('keeps exact ending', roundToEnding(4.95, [0.5, 0.95]) === 4.95),
+    check('rounding applied after markup', costOf(rounded, 'STANDARD') === 4.95),
+    check('region name matches member country', matchesCountry('NL', ['EU'])),
+    check('region name excludes other countries', !matchesCountry('CH', ['EU'])),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Run tests if this file is executed directly
+if (typeof window === 'undefined' && require.main === module) {
+  testIndividualRules();
+  testRoundingAndRegions();
+}
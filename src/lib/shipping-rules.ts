@@ -0,0 +1,114 @@
+/**
+ * Shipping Rules Engine
+ *
+ * Post-processes Printful shipping rates with the merchandising rules from
+ * `shipping-config.ts`. Rules run in a fixed order:
+ * 1. hidden methods are removed
+ * 2. flat rates replace the Printful price
+ * 3. markups are added to the remaining Printful prices
+ * 4. marked-up prices are rounded up to the configured endings
+ * 5. free shipping zeroes qualifying methods above the cart threshold
+ *
+ * Everything here is pure so the rules can be unit-tested.
+ */
+
+import { SHIPPING_REGIONS, SHIPPING_RULES, type ShippingRulesConfig } from './shipping-config';
+
+export interface QuotedShippingRate {
+  /** Printful shipping method, e.g. `STANDARD`. */
+  method: string;
+  name: string;
+  cost: number;
+  minDeliveryDays?: number;
+  maxDeliveryDays?: number;
+}
+
+export interface ShippingRuleContext {
+  /** ISO 3166-1 alpha-2 destination country. */
+  country: string;
+  /** Cart currency. */
+  currency: string;
+  /** Cart subtotal after discounts, in the cart currency. */
+  subtotal: number;
+}
+
+/**
+ * Checks whether a country is covered by a list of countries and regions
+ * @param country - ISO 3166-1 alpha-2 country code
+ * @param countries - Country codes and/or SHIPPING_REGIONS names; undefined matches everything
+ */
+export function matchesCountry(country: string, countries?: string[]): boolean {
+  if (!countries) return true;
+  return countries.some(entry => entry === country || SHIPPING_REGIONS[entry]?.includes(country));
+}
+
+/**
+ * Checks whether a method is covered by a list of methods
+ */
+function matchesMethod(method: string, methods?: string[]): boolean {
+  return !methods || methods.includes(method);
+}
+
+/**
+ * Rounds a price up to the nearest configured ending
+ * @param cost - Price to round
+ * @param endings - Allowed decimal endings, e.g. [0.5, 0.95]
+ * @returns The smallest price with an allowed ending that is not below `cost`
+ */
+export function roundToEnding(cost: number, endings: number[]): number {
+  if (endings.length === 0) return cost;
+
+  const whole = Math.floor(cost);
+  const candidates = [whole, whole + 1].flatMap(base => endings.map(ending => base + ending));
+  // Tolerate float noise such as 4.949999 for 4.95
+  const rounded = Math.min(...candidates.filter(candidate => candidate >= cost - 1e-9));
+  return Math.round(rounded * 100) / 100;
+}
+
+/**
+ * Applies the shipping rules to a set of quoted rates
+ * @param rates - Rates as quoted by Printful
+ * @param context - Destination and cart
+ * @param config - Rules to apply, defaults to SHIPPING_RULES
+ * @returns The rates to offer, in the same order
+ */
+export function applyShippingRules(
+  rates: QuotedShippingRate[],
+  context: ShippingRuleContext,
+  config: ShippingRulesConfig = SHIPPING_RULES,
+): QuotedShippingRate[] {
+  const { country, currency, subtotal } = context;
+
+  return rates
+    .filter(
+      rate =>
+        !config.hiddenMethods.some(
+          rule => matchesCountry(country, rule.countries) && matchesMethod(rate.method, rule.methods),
+        ),
+    )
+    .map(rate => {
+      const flatRate = config.flatRates.find(
+        rule => matchesCountry(country, rule.countries) && rule.method === rate.method,
+      );
+
+      let cost = rate.cost;
+      if (flatRate) {
+        cost = flatRate.cost;
+      } else {
+        cost = config.markups
+          .filter(rule => matchesCountry(country, rule.countries) && matchesMethod(rate.method, rule.methods))
+          .reduce((total, rule) => total * (1 + (rule.percent ?? 0) / 100) + (rule.fixed ?? 0), cost);
+        cost = roundToEnding(cost, config.roundTo);
+      }
+
+      const free = config.freeShipping.some(
+        rule =>
+          rule.currency.toUpperCase() === currency.toUpperCase() &&
+          subtotal >= rule.threshold &&
+          matchesCountry(country, rule.countries) &&
+          matchesMethod(rate.method, rule.methods ?? ['STANDARD']),
+      );
+
+      return { ...rate, cost: free ? 0 : Math.round(cost * 100) / 100 };
+    });
+}
@@ -0,0 +1,112 @@
+/**
+ * Snipcart REST API Client
+ *
+ * Thin wrapper around the Snipcart REST API (https://app.snipcart.com/api)
+ * for the few order operations the fulfillment pipeline needs. Requests are
+ * authenticated with HTTP Basic Auth using SNIPCART_SECRET_KEY.
+ */
+
+import type { SnipcartOrderStatus } from '../types';
+
+const SNIPCART_API_URL = 'https://app.snipcart.com/api';
+
+export interface SnipcartOrderUpdate {
+  status?: SnipcartOrderStatus;
+  trackingNumber?: string;
+  trackingUrl?: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface SnipcartNotification {
+  type: 'Comment' | 'TrackingNumber' | 'OrderStatusChanged' | 'Invoice';
+  message?: string;
+  /** `None` keeps the notification internal to the dashboard. */
+  deliveryMethod: 'Email' | 'None';
+}
+
+/**
+ * Sends an authenticated request to the Snipcart REST API
+ * @param path - Path relative to the API root, e.g. `orders/{token}`
+ * @param init - Fetch options
+ * @returns The parsed JSON response
+ * @throws Error if the secret key is missing or Snipcart responds with an error
+ */
+async function snipcartRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const secretKey = process.env.SNIPCART_SECRET_KEY;
+  if (!secretKey) {
+    throw new Error('SNIPCART_SECRET_KEY is required to call the Snipcart API');
+  }
+
+  const credentials = Buffer.from(`${secretKey}:`).toString('base64');
+  const response = await fetch(`${SNIPCART_API_URL}/${path}`, {
+    ...init,
+    headers: {
+      Authorization: `Basic ${credentials}`,
+      Accept: 'application/json',
+      'Content-Type': 'application/json',
+      ...init.headers,
+    },
+  });
+
+  if (!response.ok) {
+    const body = await response.text().catch(() => '');
+    throw new Error(`Snipcart API ${init.method || 'GET'} ${path} failed with ${response.status}: ${body}`);
+  }
+
+  return response.json() as Promise<T>;
+}
+
+/**
+ * Fetches a single order
+ * @param token - Snipcart order token
+ * @returns The Snipcart order
+ */
+export function getSnipcartOrder(token: string) {
+  return snipcartRequest<{
+    token: string;
+    invoiceNumber: string;
+    status: SnipcartOrderStatus;
+    grandTotal: number;
+    refundsAmount?: number;
+    [key: string]: unknown;
+  }>(`orders/${token}`);
+}
+
+/**
+ * Updates the status, tracking details or metadata of an order
+ * @param token - Snipcart order token
+ * @param update - Fields to change
+ * @returns The updated Snipcart order
+ */
+export function updateSnipcartOrder(token: string, update: SnipcartOrderUpdate) {
+  return snipcartRequest<Record<string, unknown>>(`orders/${token}`, {
+    method: 'PUT',
+    body: JSON.stringify(update),
+  });
+}
+
+/**
+ * Adds a notification (comment or customer email) to an order
+ * @param token - Snipcart order token
+ * @param notification - Notification to create
+ * @returns The created notification
+ */
+export function addSnipcartOrderNotification(token: string, notification: SnipcartNotification) {
+  return snipcartRequest<Record<string, unknown>>(`orders/${token}/notifications`, {
+    method: 'POST',
+    body: JSON.stringify(notification),
+  });
+}
+
+/**
+ * Finds the order token for an invoice number
+ * @param invoiceNumber - Snipcart invoice number
+ * @returns The order token, or undefined if no order matches
+ */
+export async function findSnipcartOrderToken(invoiceNumber: string): Promise<string | undefined> {
+  const { items = [] } = await snipcartRequest<{ items?: Array<{ token: string; invoiceNumber: string }> }>(
+    `orders?invoiceNumber=${encodeURIComponent(invoiceNumber)}&limit=1`,
+  );
+
+  return items.find(order => order.invoiceNumber === invoiceNumber)?.token;
+}
@@ -0,0 +1,114 @@
+import type { NextApiRequest } from 'next';
+
+import {
+  createLocalVerifier,
+  getVerificationFailure,
+  SnipcartTokenVerifier,
+  verifySnipcartRequest,
+} from './snipcart-verifier';
+
+function check(label: string, success: boolean): boolean {
+  console.log(`${label}: ${success ? '✅' : '❌'}`);
+  return success;
+}
+
+function requestWithToken(token?: string | string[]): NextApiRequest {
+  return { headers: token === undefined ? {} : { 'x-snipcart-requesttoken': token } } as NextApiRequest;
+}
+
+// Verifier that records the tokens it is asked about
+function createCountingVerifier(acceptedToken: string): SnipcartTokenVerifier & { calls: string[] } {
+  const calls: string[] = [];
+  return {
+    calls,
+    async verify(token) {
+      calls.push(token);
+      return token === acceptedToken;
+    },
+  };
+}
+
+// Test the outcome of each kind of request token
+export async function testTokenVerification() {
+  console.log('Testing request token verification...\n');
+
+  const verifier = createLocalVerifier('token-accepted');
+  const failing: SnipcartTokenVerifier = {
+    async verify() {
+      throw new Error('Snipcart unreachable');
+    },
+  };
+
+  const missing = await verifySnipcartRequest(requestWithToken(), verifier);
+  const empty = await verifySnipcartRequest(requestWithToken(''), verifier);
+  const invalid = await verifySnipcartRequest(requestWithToken('token-unknown'), verifier);
+  const verified = await verifySnipcartRequest(requestWithToken('token-accepted'), verifier);
+  const fromArray = await verifySnipcartRequest(
+    requestWithToken(['token-other', 'token-unknown']),
+    createLocalVerifier('token-other'),
+  );
+  const error = await verifySnipcartRequest(requestWithToken('token-error'), failing);
+
+  const results = [
+    check('request without a token is missing_token', missing === 'missing_token'),
+    check('empty token is missing_token', empty === 'missing_token'),
+    check('token the verifier rejects is invalid_token', invalid === 'invalid_token'),
+    check('token the verifier accepts is verified', verified === 'verified'),
+    check('first of repeated headers is used', fromArray === 'verified'),
+    check('verifier failure is error', error === 'error'),
+    check('missing token maps to 401', getVerificationFailure(missing)?.status === 401),
+    check('invalid token maps to 401', getVerificationFailure(invalid)?.status === 401),
+    check('verifier failure maps to 500', getVerificationFailure(error)?.status === 500),
+    check('verified request has no failure', getVerificationFailure(verified) === undefined),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Test that accepted tokens cannot be reused until the replay window passes
+export async function testReplayWindow() {
+  console.log('Testing replay protection...\n');
+
+  process.env.SNIPCART_TOKEN_REPLAY_SECONDS = '60';
+  const realNow = Date.now;
+  let now = realNow();
+  Date.now = () => now;
+
+  try {
+    const verifier = createCountingVerifier('token-replay');
+
+    const first = await verifySnipcartRequest(requestWithToken('token-replay'), verifier);
+    now += 30 * 1000;
+    const replayed = await verifySnipcartRequest(requestWithToken('token-replay'), verifier);
+    const callsBeforeExpiry = verifier.calls.length;
+    now += 31 * 1000;
+    const afterWindow = await verifySnipcartRequest(requestWithToken('token-replay'), verifier);
+
+    const rejected = await verifySnipcartRequest(requestWithToken('token-rejected'), verifier);
+    const rejectedAgain = await verifySnipcartRequest(requestWithToken('token-rejected'), verifier);
+
+    const results = [
+      check('first use is verified', first === 'verified'),
+      check('second use within the window is replayed', replayed === 'replayed'),
+      check('replayed token is not sent to the verifier', callsBeforeExpiry === 1),
+      check('replay maps to 401', getVerificationFailure(replayed)?.status === 401),
+      check('token is accepted again once the window passes', afterWindow === 'verified'),
+      check('rejected token stays invalid rather than replayed', rejected === 'invalid_token' && rejectedAgain === 'invalid_token'),
+    ];
+
+    console.log('');
+    return results.every(Boolean);
+  } finally {
+    Date.now = realNow;
+    delete process.env.SNIPCART_TOKEN_REPLAY_SECONDS;
+  }
+}
+
+// Run tests if this file is executed directly
+if (typeof window === 'undefined' && require.main === module) {
+  (async () => {
+    await testTokenVerification();
+    await testReplayWindow();
+  })();
+}
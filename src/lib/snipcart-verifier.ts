@@ -0,0 +1,165 @@
+/**
+ * Snipcart Request Verification
+ *
+ * Snipcart signs every webhook, shipping rate and tax request with an
+ * `X-Snipcart-RequestToken` header that has to be checked with Snipcart.
+ * The check sits behind a small verifier interface so development and tests
+ * can use a local stand-in (SNIPCART_VERIFIER=local) instead of the network.
+ *
+ * Accepted tokens are remembered for a few minutes; presenting the same token
+ * again within that window is treated as a replayed request.
+ */
+
+import type { NextApiRequest } from 'next';
+
+import type { WebhookVerificationResult } from '../types';
+
+export interface SnipcartTokenVerifier {
+  /** Resolves to true when Snipcart issued the token. */
+  verify(token: string): Promise<boolean>;
+}
+
+export interface VerificationFailure {
+  status: number;
+  message: string;
+}
+
+const SNIPCART_VALIDATION_URL = 'https://app.snipcart.com/api/requestvalidation';
+// Matches the token the dev scripts in scripts/dev send
+const DEFAULT_LOCAL_TOKEN = 'test-token';
+const DEFAULT_REPLAY_WINDOW_SECONDS = 300;
+
+// Token -> time until which a second use counts as a replay
+const seenTokens = new Map<string, number>();
+
+/**
+ * Verifies tokens against Snipcart's request validation endpoint
+ * @param secretKey - Snipcart secret API key
+ */
+export function createSnipcartVerifier(secretKey: string): SnipcartTokenVerifier {
+  const credentials = Buffer.from(`${secretKey}:`).toString('base64');
+
+  return {
+    async verify(token) {
+      const response = await fetch(`${SNIPCART_VALIDATION_URL}/${encodeURIComponent(token)}`, {
+        headers: {
+          Authorization: `Basic ${credentials}`,
+          Accept: 'application/json',
+        },
+      });
+
+      if (!response.ok) {
+        console.warn('Snipcart rejected request token:', response.status, response.statusText);
+      }
+      return response.ok;
+    },
+  };
+}
+
+/**
+ * Offline stand-in that accepts a single well-known token
+ * @param acceptedToken - The token to accept
+ */
+export function createLocalVerifier(acceptedToken: string = DEFAULT_LOCAL_TOKEN): SnipcartTokenVerifier {
+  return {
+    async verify(token) {
+      return token === acceptedToken;
+    },
+  };
+}
+
+/**
+ * Builds the verifier selected by SNIPCART_VERIFIER
+ * - `snipcart` (default): ask Snipcart, requires SNIPCART_SECRET_KEY
+ * - `local`: accept SNIPCART_LOCAL_TOKEN (default `test-token`); refused in production
+ * @returns The configured verifier
+ * @throws Error if the configuration is unusable
+ */
+export function getTokenVerifier(): SnipcartTokenVerifier {
+  if (process.env.SNIPCART_VERIFIER === 'local') {
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error('SNIPCART_VERIFIER=local cannot be used in production');
+    }
+    return createLocalVerifier(process.env.SNIPCART_LOCAL_TOKEN || DEFAULT_LOCAL_TOKEN);
+  }
+
+  const secretKey = process.env.SNIPCART_SECRET_KEY;
+  if (!secretKey) {
+    throw new Error('SNIPCART_SECRET_KEY is required to verify Snipcart requests');
+  }
+  return createSnipcartVerifier(secretKey);
+}
+
+/**
+ * Reads the replay window from SNIPCART_TOKEN_REPLAY_SECONDS
+ */
+function getReplayWindowMs(): number {
+  const seconds = Number(process.env.SNIPCART_TOKEN_REPLAY_SECONDS);
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_REPLAY_WINDOW_SECONDS) * 1000;
+}
+
+/**
+ * Drops tokens whose replay window has passed
+ */
+function pruneSeenTokens(now: number): void {
+  seenTokens.forEach((expiresAt, token) => {
+    if (expiresAt <= now) seenTokens.delete(token);
+  });
+}
+
+/**
+ * Verifies the request token of an incoming Snipcart request
+ * @param req - The incoming API request
+ * @param verifier - Verifier to use, defaults to the configured one
+ * @returns The verification result
+ */
+export async function verifySnipcartRequest(
+  req: NextApiRequest,
+  verifier?: SnipcartTokenVerifier,
+): Promise<WebhookVerificationResult> {
+  const header = req.headers['x-snipcart-requesttoken'];
+  const token = Array.isArray(header) ? header[0] : header;
+  if (!token) {
+    return 'missing_token';
+  }
+
+  const now = Date.now();
+  pruneSeenTokens(now);
+  if (seenTokens.has(token)) {
+    console.warn('Snipcart request token used more than once');
+    return 'replayed';
+  }
+
+  try {
+    const verified = await (verifier ?? getTokenVerifier()).verify(token);
+    if (!verified) {
+      return 'invalid_token';
+    }
+  } catch (error) {
+    console.error('Error verifying Snipcart request token:', error);
+    return 'error';
+  }
+
+  seenTokens.set(token, now + getReplayWindowMs());
+  return 'verified';
+}
+
+/**
+ * Maps an unsuccessful verification to the HTTP response to send
+ * @param result - Result of `verifySnipcartRequest`
+ * @returns Status and message, or undefined when the request was verified
+ */
+export function getVerificationFailure(result: WebhookVerificationResult): VerificationFailure | undefined {
+  switch (result) {
+    case 'missing_token':
+      return { status: 401, message: 'Not Authorized - Missing webhook token' };
+    case 'invalid_token':
+      return { status: 401, message: 'Not Authorized - Invalid webhook token' };
+    case 'replayed':
+      return { status: 401, message: 'Not Authorized - Webhook token already used' };
+    case 'error':
+      return { status: 500, message: 'Unable to verify Snipcart webhook token' };
+    default:
+      return undefined;
+  }
+}
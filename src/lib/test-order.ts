@@ -0,0 +1,68 @@
+import { markTestOrderSubmitted } from './order-ledger';
+import { printful } from './printful-client';
+import { buildOrderPayload, estimatePrintfulOrderCosts } from './printful-orders';
+import type { OrderSubmission } from '../types';
+
+export type TestFulfillmentStrategy = 'estimate' | 'draft' | 'live';
+
+export interface TestOrderResult {
+  strategy: Exclude<TestFulfillmentStrategy, 'live'>;
+  printfulOrderId?: number;
+  printfulStatus?: string;
+  estimatedCosts?: Record<string, unknown>;
+}
+
+// Keeps test invoices apart from live ones in the ledger and in Printful,
+// since Snipcart test and live invoice numbers can overlap.
+const TEST_INVOICE_PREFIX = 'TEST-';
+
+/**
+ * Reads how Snipcart test-mode orders are fulfilled from SNIPCART_TEST_FULFILLMENT
+ * - `estimate` (default): validate the order against `orders/estimate-costs`
+ * - `draft`: create an unconfirmed draft order tagged as a test
+ * - `live`: treat test orders like real ones (only for end-to-end staging runs)
+ * @returns The configured strategy
+ */
+export function getTestFulfillmentStrategy(): TestFulfillmentStrategy {
+  const strategy = process.env.SNIPCART_TEST_FULFILLMENT;
+  return strategy === 'draft' || strategy === 'live' ? strategy : 'estimate';
+}
+
+/**
+ * Derives the invoice key used for a test-mode order
+ * @param invoiceNumber - Snipcart invoice number
+ * @returns The prefixed invoice number
+ */
+export function toTestInvoiceNumber(invoiceNumber: string): string {
+  return invoiceNumber.startsWith(TEST_INVOICE_PREFIX)
+    ? invoiceNumber
+    : `${TEST_INVOICE_PREFIX}${invoiceNumber}`;
+}
+
+/**
+ * Runs a Snipcart test-mode order through the Printful sandbox path and
+ * records the result in the order ledger. Never confirms an order.
+ * @param order - The order, with its invoice number already prefixed
+ * @returns What Printful returned for the estimate or the draft
+ */
+export default async function submitTestOrder(order: OrderSubmission): Promise<TestOrderResult> {
+  const strategy = getTestFulfillmentStrategy() === 'draft' ? 'draft' : 'estimate';
+
+  let result: TestOrderResult;
+  if (strategy === 'estimate') {
+    result = { strategy, estimatedCosts: await estimatePrintfulOrderCosts(order) };
+  } else {
+    // Test drafts stay on v1, whose payload carries the packing slip warning
+    const payload = await buildOrderPayload(order, 'v1');
+    const { result: draft } = await printful.post('orders?confirm=false', {
+      ...payload,
+      packing_slip: { message: 'TEST ORDER - DO NOT FULFILL' },
+    });
+    result = { strategy, printfulOrderId: draft?.id, printfulStatus: draft?.status };
+  }
+
+  await markTestOrderSubmitted(order.invoiceNumber, result);
+  console.warn('Recorded Snipcart test-mode order:', { invoiceNumber: order.invoiceNumber, ...result });
+
+  return result;
+}
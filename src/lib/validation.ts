@@ -48,8 +48,76 @@ export const SnipcartWebhookRequestSchema = z.object({
   // Add fields that are at the root level for order.completed events
   invoiceNumber: z.string().optional(),
   email: z.string().optional(),
+  // Previous and new status for order.status.changed and order.paymentStatus.changed
+  from: z.string().optional(),
+  to: z.string().optional(),
 }).passthrough();
 
+// Printful webhook event validation
+export const PrintfulWebhookEventSchema = z.enum([
+  'package_shipped',
+  'package_returned',
+  'order_created',
+  'order_updated',
+  'order_failed',
+  'order_canceled',
+  'order_put_hold',
+  'order_remove_hold',
+  'product_synced',
+  'product_updated',
+  'product_deleted',
+]);
+
+// Printful order summary included in order and shipment events
+export const PrintfulWebhookOrderSchema = z.object({
+  id: z.number(),
+  external_id: z.string().nullable().optional(),
+  status: z.string().optional(),
+}).passthrough();
+
+// Printful webhook request validation
+export const PrintfulWebhookRequestSchema = z.object({
+  type: PrintfulWebhookEventSchema,
+  created: z.number().optional(),
+  retries: z.number().optional(),
+  store: z.number().optional(),
+  data: z.object({
+    order: PrintfulWebhookOrderSchema.optional(),
+    shipment: z.object({
+      id: z.number().optional(),
+      carrier: z.string().optional(),
+      service: z.string().optional(),
+      tracking_number: z.union([z.string(), z.number()]).optional(),
+      tracking_url: z.string().optional(),
+    }).passthrough().optional(),
+    reason: z.string().optional(),
+    sync_product: z.object({
+      id: z.number(),
+      external_id: z.string().nullable().optional(),
+    }).passthrough().optional(),
+  }).passthrough(),
+}).passthrough();
+
+// Admin order job action validation
+export const OrderJobActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('process') }),
+  z.object({ action: z.literal('redrive'), invoiceNumber: z.string().min(1, 'Invoice number is required') }),
+]);
+
+// Admin webhook journal query validation
+export const WebhookJournalQuerySchema = z.object({
+  id: z.string().optional(),
+  eventName: z.string().optional(),
+  invoiceNumber: z.string().optional(),
+  limit: z.coerce.number().int().positive().max(500).optional().default(50),
+});
+
+// Admin webhook journal action validation
+export const WebhookJournalActionSchema = z.object({
+  action: z.literal('replay'),
+  id: z.string().min(1, 'Journal entry ID is required'),
+});
+
 // Shipping rate request validation
 export const ShippingRateRequestSchema = z.object({
   eventName: z.literal('shippingrates.fetch'),
@@ -58,6 +126,8 @@ export const ShippingRateRequestSchema = z.object({
       id: z.string(),
       quantity: z.number().positive(),
       price: z.number().positive().optional(),
+      name: z.string().optional(),
+      url: z.string().optional(),
     }).passthrough()).min(1, 'At least one item is required'),
     shippingAddress1: z.string().optional(),
     shippingAddress2: z.string().optional(),
@@ -66,9 +136,40 @@ export const ShippingRateRequestSchema = z.object({
     shippingAddressProvince: z.string().optional(),
     shippingAddressPostalCode: z.string().optional(),
     shippingAddressPhone: z.string().optional(),
+    currency: z.string().optional(),
+    itemsTotal: z.number().optional(),
+    subtotal: z.number().optional(),
   }),
 });
 
+// Product page shipping estimate validation
+export const ShippingEstimateQuerySchema = z.object({
+  variantId: z.string().min(1, 'Variant ID is required'),
+  quantity: z.coerce.number().int().positive().max(100).optional(),
+  country: z.string().length(2, 'Country must be a 2-letter ISO code').transform((code) => code.toUpperCase()),
+  state: z.string().optional(),
+  currency: z.string().optional(),
+  subtotal: z.coerce.number().nonnegative().optional(),
+});
+
+// Admin OSS report query validation
+export const OssReportQuerySchema = z.object({
+  quarter: z.string().regex(/^\d{4}-Q[1-4]$/, 'Quarter must look like 2026-Q3').optional(),
+  format: z.enum(['json', 'csv']).optional(),
+});
+
+// Admin catalog sync query validation
+export const CatalogSyncQuerySchema = z.object({
+  full: z.enum(['true', 'false']).optional(),
+});
+
+// Signed invoice download link validation
+export const InvoiceDownloadQuerySchema = z.object({
+  number: z.string().min(1, 'Invoice number is required'),
+  expires: z.coerce.number().int().positive(),
+  signature: z.string().regex(/^[0-9a-f]{64}$/, 'Invalid signature'),
+});
+
 // Tax calculation request validation
 export const TaxCalculationRequestSchema = z.object({
   eventName: z.literal('taxes.calculate'),
@@ -77,6 +178,7 @@ export const TaxCalculationRequestSchema = z.object({
       id: z.string(),
       quantity: z.number().positive(),
       price: z.number().positive(),
+      categories: z.array(z.string()).optional(),
     })).min(1, 'At least one item is required'),
     shippingAddress: z.object({
       address1: z.string().optional(),
@@ -88,6 +190,19 @@ export const TaxCalculationRequestSchema = z.object({
       phone: z.string().optional(),
     }).optional(),
     shippingRateUserDefinedId: z.string().optional(),
+    currency: z.string().optional(),
+    // Discount codes applied to the cart; VAT is charged on the discounted prices
+    totalDiscounts: z.number().optional(),
+    discounts: z.array(z.object({}).passthrough()).optional(),
+    shippingInformation: z.object({
+      fees: z.number().nonnegative().optional(),
+      method: z.string().nullable().optional(),
+    }).optional(),
+    // Checkout custom fields, e.g. the business VAT number
+    customFields: z.array(z.object({
+      name: z.string(),
+      value: z.unknown().optional(),
+    }).passthrough()).optional(),
   }),
 });
 
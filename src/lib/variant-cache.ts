@@ -0,0 +1,289 @@
+/**
+ * Sync Variant Cache
+ *
+ * Maps the sync variant external IDs used as Snipcart item IDs to the
+ * Printful details needed to place an order. The catalog sync hands over the
+ * sync variants of every product it fetches, and keeps the entries of
+ * products it finds unchanged current, so order creation normally needs no
+ * Printful lookups at all; an order only looks up the variants it is
+ * missing. Entries expire after VARIANT_CACHE_TTL_MINUTES.
+ *
+ * v2 orders name the print technique of every placement, so the default
+ * technique of each catalog product is looked up once and kept alongside.
+ */
+
+import { fetchInBatches } from './fetch-in-batches';
+import { createJsonStore } from './json-store';
+import { printful } from './printful-client';
+import { isPrintfulNotFoundError } from './printful-errors';
+import type { ResolvedVariant, ResolvedVariants } from './order-mapping';
+import type { OrderLineItem, PrintfulSyncVariant } from '../types';
+
+interface CachedVariant extends ResolvedVariant {
+  externalId: string;
+  syncProductId: number;
+  /** Printful catalog product name, e.g. "Unisex Staple T-Shirt | Bella + Canvas 3001". */
+  productName?: string;
+  availabilityStatus?: string;
+  cachedAt: string;
+}
+
+interface VariantCache {
+  variants: Record<string, CachedVariant>;
+  /** Default technique per Printful catalog product ID, e.g. `dtg`. */
+  techniques?: Record<string, string>;
+}
+
+interface CatalogProductResponse {
+  result: { product: { techniques?: Array<{ key: string; is_default?: boolean }> } };
+}
+
+/** What a catalog sync learned about the products it listed. */
+export interface ProductVariantChanges {
+  /** Sync variants of the products that were fetched. */
+  fetched?: Array<{ syncProductId: number; syncVariants: PrintfulSyncVariant[] }>;
+  /** Products listed with the same variant counts as before. */
+  unchanged?: number[];
+  /** Products that are no longer listed. */
+  removed?: number[];
+}
+
+const DEFAULT_TTL_MINUTES = 60;
+
+// Printful keeps discontinued variants in the sync catalog, but they can no
+// longer be ordered
+const UNAVAILABLE_STATUSES = ['discontinued', 'inactive'];
+
+const variantStore = createJsonStore<VariantCache>('variant-cache', () => ({ variants: {} }));
+
+/**
+ * Reads the cache lifetime from VARIANT_CACHE_TTL_MINUTES
+ * @returns Lifetime of cached variants, in milliseconds
+ */
+export function getVariantCacheTtlMs(): number {
+  const minutes = Number(process.env.VARIANT_CACHE_TTL_MINUTES);
+  return (Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_TTL_MINUTES) * 60 * 1000;
+}
+
+/**
+ * Checks whether a timestamp is still within the cache lifetime
+ */
+function isFresh(timestamp: string | undefined, now: Date): boolean {
+  return !!timestamp && now.getTime() - new Date(timestamp).getTime() < getVariantCacheTtlMs();
+}
+
+/**
+ * Converts a Printful sync variant into a cache entry
+ * @param techniques - Default techniques keyed by catalog product ID
+ */
+function toCachedVariant(
+  syncVariant: PrintfulSyncVariant,
+  techniques: Record<string, string>,
+  now: Date,
+): CachedVariant {
+  const catalogProductId = syncVariant.product?.product_id;
+  return {
+    externalId: syncVariant.external_id,
+    syncProductId: syncVariant.sync_product_id,
+    syncVariantId: syncVariant.id,
+    catalogVariantId: syncVariant.variant_id,
+    files: (syncVariant.files || [])
+      .filter(file => file.type !== 'preview')
+      .map(file => ({ type: file.type, url: file.url })),
+    technique: catalogProductId ? techniques[catalogProductId] : undefined,
+    productName: syncVariant.product?.name,
+    availabilityStatus: syncVariant.availability_status,
+    cachedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Looks up the default technique of a catalog product
+ * @param catalogProductId - Printful catalog product ID
+ * @returns The technique in v2 spelling (v1 uses upper case, e.g. `DTG`)
+ */
+async function fetchTechnique(catalogProductId: number): Promise<string | undefined> {
+  const { result }: CatalogProductResponse = await printful.get(`products/${catalogProductId}`);
+  const techniques = result.product.techniques || [];
+  const technique = techniques.find(({ is_default }) => is_default) ?? techniques[0];
+  return technique?.key.toLowerCase();
+}
+
+/**
+ * Finds the default techniques of the catalog products behind sync variants.
+ * Techniques already cached are reused; a failed lookup leaves the product
+ * out, and its variants are looked up again by the next order.
+ * @param syncVariants - Sync variants about to be cached
+ * @param cached - Techniques cached so far
+ * @returns Techniques keyed by catalog product ID
+ */
+async function resolveTechniques(
+  syncVariants: PrintfulSyncVariant[],
+  cached: Record<string, string> = {},
+): Promise<Record<string, string>> {
+  const techniques: Record<string, string> = {};
+  const catalogProductIds = Array.from(
+    new Set(syncVariants.flatMap(syncVariant => syncVariant.product?.product_id ?? [])),
+  );
+
+  await fetchInBatches(catalogProductIds, async catalogProductId => {
+    try {
+      const technique = cached[catalogProductId] ?? (await fetchTechnique(catalogProductId));
+      if (technique) techniques[catalogProductId] = technique;
+    } catch (error) {
+      console.error('Failed to look up catalog product techniques:', catalogProductId, error);
+    }
+  });
+  return techniques;
+}
+
+/**
+ * Applies the outcome of a catalog sync or product webhook to the cache
+ * @param changes - Products fetched, found unchanged or removed
+ * @param now - Reference time, defaults to the current time
+ */
+export async function updateProductVariants(changes: ProductVariantChanges, now: Date = new Date()): Promise<void> {
+  const unchanged = new Set(changes.unchanged);
+  const syncVariants = (changes.fetched || []).flatMap(product => product.syncVariants);
+  const techniques = await resolveTechniques(syncVariants, (await variantStore.read()).techniques);
+
+  await variantStore.update(current => {
+    current.techniques = { ...current.techniques, ...techniques };
+    changes.removed?.forEach(syncProductId => removeProduct(current, syncProductId));
+
+    changes.fetched?.forEach(({ syncProductId, syncVariants }) => {
+      removeProduct(current, syncProductId);
+      syncVariants
+        .filter(syncVariant => syncVariant.external_id)
+        .forEach(syncVariant => {
+          current.variants[syncVariant.external_id] = toCachedVariant(syncVariant, techniques, now);
+        });
+    });
+
+    // The listing shows these products did not change since they were cached
+    Object.values(current.variants).forEach(variant => {
+      if (unchanged.has(variant.syncProductId)) {
+        variant.cachedAt = now.toISOString();
+      }
+    });
+  });
+}
+
+/**
+ * Looks up a single sync variant, for variants added since the last catalog sync
+ * @param externalId - Sync variant external ID
+ * @returns The sync variant, or undefined if Printful does not know the ID
+ */
+async function fetchVariant(externalId: string): Promise<PrintfulSyncVariant | undefined> {
+  try {
+    const { result }: { result: PrintfulSyncVariant } = await printful.get(
+      `store/variants/@${encodeURIComponent(externalId)}`,
+    );
+    return result;
+  } catch (error) {
+    if (isPrintfulNotFoundError(error)) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Resolves the Printful variants behind a set of cart lines. Cached entries
+ * are used while fresh; missing or expired ones are looked up a few variants
+ * at a time.
+ * @param items - Cart lines, keyed by sync variant external ID
+ * @param now - Reference time, defaults to the current time
+ * @returns Resolved variants keyed by external ID
+ * @throws Error naming every item that is not (or no longer) sold
+ */
+export async function resolveVariants(
+  items: OrderLineItem[],
+  now: Date = new Date(),
+): Promise<ResolvedVariants> {
+  const externalIds = Array.from(new Set(items.map(item => item.id)));
+
+  let cache = await variantStore.read();
+  // Entries cached before their product's technique was known are looked up again
+  const missing = externalIds.filter(externalId => {
+    const variant = cache.variants[externalId];
+    return !variant?.technique || !isFresh(variant.cachedAt, now);
+  });
+
+  if (missing.length > 0) {
+    const fetched = await fetchInBatches(missing, externalId => fetchVariant(externalId));
+    const techniques = await resolveTechniques(
+      fetched.flatMap(syncVariant => syncVariant ?? []),
+      cache.techniques,
+    );
+    cache = await variantStore.update(current => {
+      current.techniques = { ...current.techniques, ...techniques };
+      fetched.forEach((syncVariant, index) => {
+        if (syncVariant) {
+          current.variants[syncVariant.external_id] = toCachedVariant(syncVariant, techniques, now);
+        } else {
+          delete current.variants[missing[index]];
+        }
+      });
+    });
+  }
+
+  const problems: string[] = [];
+  const resolved: ResolvedVariants = {};
+  for (const externalId of externalIds) {
+    const variant = cache.variants[externalId];
+    const label = describeItem(items, externalId);
+
+    if (!variant) {
+      problems.push(`${label} is not in the Printful catalog`);
+    } else if (variant.availabilityStatus && UNAVAILABLE_STATUSES.includes(variant.availabilityStatus)) {
+      problems.push(`${label} is no longer sold (${variant.availabilityStatus})`);
+    } else {
+      resolved[externalId] = {
+        syncVariantId: variant.syncVariantId,
+        catalogVariantId: variant.catalogVariantId,
+        files: variant.files,
+        technique: variant.technique,
+      };
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Unable to resolve order items: ${problems.join('; ')}`);
+  }
+
+  return resolved;
+}
+
+/**
+ * Looks up the catalog product names of cart lines, for production times.
+ * Only reads the cache, so it never slows down a quote.
+ * @param externalIds - Sync variant external IDs
+ * @returns Names of the variants that are cached
+ */
+export async function getCachedProductNames(externalIds: string[]): Promise<string[]> {
+  const { variants } = await variantStore.read();
+  return externalIds.flatMap(externalId => {
+    const productName = variants[externalId]?.productName;
+    return productName ? [productName] : [];
+  });
+}
+
+/**
+ * Names a cart line for error messages
+ */
+function describeItem(items: OrderLineItem[], externalId: string): string {
+  const name = items.find(item => item.id === externalId)?.name;
+  return name ? `"${name}" (${externalId})` : externalId;
+}
+
+/**
+ * Removes the entries of one product from the cache document
+ */
+function removeProduct(cache: VariantCache, syncProductId: number): void {
+  for (const [externalId, variant] of Object.entries(cache.variants)) {
+    if (variant.syncProductId === syncProductId) {
+      delete cache.variants[externalId];
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import {
+  getOrderVatDetails,
+  getVatNumberField,
+  isReverseCharge,
+  REVERSE_CHARGE_MENTION,
+  validateVatNumber,
+  type ValidVatNumber,
+} from './vat-number';
+
+function check(label: string, success: boolean): boolean {
+  console.log(`${label}: ${success ? '✅' : '❌'}`);
+  return success;
+}
+
+// Published example numbers, one per country with a verified check digit
+const validNumbers = [
+  'ATU13585627',
+  'BE0411905847',
+  'DE136695976',
+  'DK13585628',
+  'EE100931558',
+  'EL094259216',
+  'FI20774740',
+  'FR40303265045',
+  'HR33392005961',
+  'HU12892312',
+  'IT00743110157',
+  'LU15027442',
+  'MT11679112',
+  'NL004495445B01',
+  'PL8567346215',
+  'PT501964843',
+  'RO18547290',
+  'SE123456789701',
+  'SI50223054',
+  'SK2022749619',
+];
+
+// Test formats and check digits
+export function testValidation() {
+  console.log('Testing VAT number validation...\n');
+
+  const belgian = validateVatNumber('be 0411.905.847');
+  const greek = validateVatNumber('EL094259216');
+
+  const results = [
+    ...validNumbers.map(number => check(`${number} is valid`, validateVatNumber(number).valid)),
+    check('separators and case are normalised', belgian.valid && belgian.vatNumber === 'BE0411905847'),
+    check('Greek EL prefix maps to GR', greek.valid && greek.country === 'GR'),
+    check('wrong check digit is rejected', !validateVatNumber('DE136695978').valid),
+    check('wrong length is rejected', !validateVatNumber('BE041190584').valid),
+    check('non-EU prefix is rejected', !validateVatNumber('GB123456789').valid),
+    check('format-only country accepts its format', validateVatNumber('ESA12345674').valid),
+    check('NL sole trader number passes mod 97', validateVatNumber('NL000099998B57').valid),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Test when an order is reverse charged
+export function testReverseCharge() {
+  console.log('Testing reverse charge...\n');
+
+  const german = validateVatNumber('DE136695976') as ValidVatNumber;
+  const belgian = validateVatNumber('BE0411905847') as ValidVatNumber;
+  const customFields = [{ name: 'phone', value: '' }, { name: 'vatNumber', value: ' DE136695976 ' }];
+
+  const results = [
+    check('intra-EU B2B order is reverse charged', isReverseCharge(german, 'DE', 'BE')),
+    check('domestic order pays VAT', !isReverseCharge(belgian, 'BE', 'BE')),
+    check('home country number pays VAT abroad', !isReverseCharge(belgian, 'DE', 'BE')),
+    check('goods shipped home pay VAT', !isReverseCharge(german, 'BE', 'BE')),
+    check('shipment outside the EU is not reverse charged', !isReverseCharge(german, 'CH', 'BE')),
+    check('field is read from custom fields', getVatNumberField(customFields) === 'DE136695976'),
+    check('empty field is ignored', getVatNumberField([{ name: 'vatNumber', value: '  ' }]) === undefined),
+    check(
+      'order keeps number and mention',
+      getOrderVatDetails(customFields, 'DE', 'BE')?.vatMention === REVERSE_CHARGE_MENTION,
+    ),
+    check('domestic order keeps number only', getOrderVatDetails(customFields, 'BE', 'BE')?.vatMention === undefined),
+    check('no mention without home country', getOrderVatDetails(customFields, 'DE')?.vatMention === undefined),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Run tests if this file is executed directly
+if (typeof window === 'undefined' && require.main === module) {
+  testValidation();
+  testReverseCharge();
+}
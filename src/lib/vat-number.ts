@@ -0,0 +1,320 @@
+/**
+ * VAT Numbers
+ *
+ * Offline validation of EU VAT identification numbers, captured by the
+ * `vatNumber` checkout field for business customers. Each member state has
+ * its own format and most have a check digit; numbers are checked against
+ * both, without calling VIES, so a typo is caught before the order is placed.
+ * Countries whose check digit is not verified here (BG, CY, CZ, ES, IE, LT,
+ * LV) are only checked for format.
+ *
+ * A valid number from another member state than VAT_HOME_COUNTRY, on an order
+ * shipped within the EU, makes the order an intra-EU B2B supply: no VAT is
+ * charged and the customer accounts for it (reverse charge).
+ */
+
+import { getVatCountry, type VatRateTable, VAT_RATES } from './vat';
+
+/** Name of the Snipcart custom field holding the VAT number. */
+export const VAT_NUMBER_FIELD = 'vatNumber';
+
+/** Legal mention required on reverse-charged invoices. */
+export const REVERSE_CHARGE_MENTION =
+  'Reverse charge: VAT to be accounted for by the customer (Article 196, Council Directive 2006/112/EC)';
+
+export interface ValidVatNumber {
+  valid: true;
+  /** ISO 3166-1 alpha-2 country code (GR for Greek `EL` numbers). */
+  country: string;
+  /** Number with its prefix, uppercase and without separators, e.g. `BE0411905847`. */
+  vatNumber: string;
+}
+
+export interface InvalidVatNumber {
+  valid: false;
+  error: string;
+}
+
+export type VatNumberValidation = ValidVatNumber | InvalidVatNumber;
+
+interface VatNumberFormat {
+  pattern: RegExp;
+  /** Verifies the check digits of a number matching the pattern. */
+  checksum?: (digits: string) => boolean;
+}
+
+/**
+ * Splits a string of digits into numbers
+ */
+function toDigits(value: string): number[] {
+  return value.split('').map(Number);
+}
+
+/**
+ * Sums digits multiplied by the weight at the same position
+ */
+function weightedSum(digits: number[], weights: number[]): number {
+  return weights.reduce((total, weight, index) => total + weight * digits[index], 0);
+}
+
+/**
+ * Luhn check over a string of digits
+ */
+function luhn(value: string): boolean {
+  const sum = toDigits(value)
+    .reverse()
+    .reduce((total, digit, index) => {
+      if (index % 2 === 0) return total + digit;
+      const doubled = digit * 2;
+      return total + (doubled > 9 ? doubled - 9 : doubled);
+    }, 0);
+  return sum % 10 === 0;
+}
+
+/**
+ * ISO 7064 MOD 11,10 check digit of the first digits
+ */
+function mod11x10(value: string): number {
+  const product = toDigits(value).reduce((carry, digit) => {
+    const sum = (digit + carry) % 10 || 10;
+    return (sum * 2) % 11;
+  }, 10);
+  return (11 - product) % 10;
+}
+
+/**
+ * Check digit of weighted digits modulo 11, or undefined when the remainder
+ * allows no check digit
+ */
+function mod11CheckDigit(digits: number[], weights: number[]): number | undefined {
+  const check = 11 - (weightedSum(digits, weights) % 11);
+  if (check === 11) return 0;
+  return check === 10 ? undefined : check;
+}
+
+/**
+ * Remainder of a number too long for float precision
+ */
+function remainder(value: string, divisor: number): number {
+  return value.split('').reduce((carry, digit) => (carry * 10 + Number(digit)) % divisor, 0);
+}
+
+/**
+ * Formats per prefix. Patterns apply to the number without its prefix.
+ */
+const VAT_NUMBER_FORMATS: Record<string, VatNumberFormat> = {
+  AT: {
+    pattern: /^U\d{8}$/,
+    checksum: value => {
+      const digits = toDigits(value.slice(1));
+      const sum = digits.slice(0, 7).reduce((total, digit, index) => {
+        if (index % 2 === 0) return total + digit;
+        const doubled = digit * 2;
+        return total + Math.floor(doubled / 10) + (doubled % 10);
+      }, 0);
+      return (10 - ((sum + 4) % 10)) % 10 === digits[7];
+    },
+  },
+  BE: {
+    pattern: /^[01]\d{9}$/,
+    checksum: value => 97 - remainder(value.slice(0, 8), 97) === Number(value.slice(8)),
+  },
+  BG: { pattern: /^\d{9,10}$/ },
+  CY: { pattern: /^[013459]\d{7}[A-Z]$/ },
+  CZ: { pattern: /^\d{8,10}$/ },
+  DE: {
+    pattern: /^[1-9]\d{8}$/,
+    checksum: value => mod11x10(value.slice(0, 8)) === Number(value[8]),
+  },
+  DK: {
+    pattern: /^[1-9]\d{7}$/,
+    checksum: value => weightedSum(toDigits(value), [2, 7, 6, 5, 4, 3, 2, 1]) % 11 === 0,
+  },
+  EE: {
+    pattern: /^10\d{7}$/,
+    checksum: value => {
+      const digits = toDigits(value);
+      return (10 - (weightedSum(digits, [3, 7, 1, 3, 7, 1, 3, 7]) % 10)) % 10 === digits[8];
+    },
+  },
+  EL: {
+    pattern: /^\d{9}$/,
+    checksum: value => {
+      const digits = toDigits(value);
+      return (weightedSum(digits, [256, 128, 64, 32, 16, 8, 4, 2]) % 11) % 10 === digits[8];
+    },
+  },
+  ES: { pattern: /^[A-Z0-9]\d{7}[A-Z0-9]$/ },
+  FI: {
+    pattern: /^\d{8}$/,
+    checksum: value => {
+      const digits = toDigits(value);
+      return mod11CheckDigit(digits, [7, 9, 10, 5, 8, 4, 2]) === digits[7];
+    },
+  },
+  FR: {
+    pattern: /^[0-9A-HJ-NP-Z]{2}\d{9}$/,
+    // Only numeric keys can be verified; the newer alphanumeric keys are not published
+    checksum: value =>
+      !/^\d{2}/.test(value) || (12 + 3 * (Number(value.slice(2)) % 97)) % 97 === Number(value.slice(0, 2)),
+  },
+  HR: {
+    pattern: /^\d{11}$/,
+    checksum: value => mod11x10(value.slice(0, 10)) === Number(value[10]),
+  },
+  HU: {
+    pattern: /^\d{8}$/,
+    checksum: value => {
+      const digits = toDigits(value);
+      return (10 - (weightedSum(digits, [9, 7, 3, 1, 9, 7, 3]) % 10)) % 10 === digits[7];
+    },
+  },
+  IE: { pattern: /^(\d{7}[A-W][A-I]?|\d[A-Z+*]\d{5}[A-W])$/ },
+  IT: {
+    pattern: /^\d{11}$/,
+    checksum: luhn,
+  },
+  LT: { pattern: /^(\d{9}|\d{12})$/ },
+  LU: {
+    pattern: /^\d{8}$/,
+    checksum: value => Number(value.slice(0, 6)) % 89 === Number(value.slice(6)),
+  },
+  LV: { pattern: /^\d{11}$/ },
+  MT: {
+    pattern: /^[1-9]\d{7}$/,
+    checksum: value => {
+      const digits = toDigits(value);
+      return 37 - (weightedSum(digits, [3, 4, 6, 7, 8, 9]) % 37) === Number(value.slice(6));
+    },
+  },
+  NL: {
+    pattern: /^\d{9}B\d{2}$/,
+    // Legal entities use a mod 11 check, sole traders (since 2020) mod 97 over the whole number
+    checksum: value => {
+      const digits = toDigits(value.slice(0, 9));
+      const elevenProof = weightedSum(digits, [9, 8, 7, 6, 5, 4, 3, 2]) % 11 === digits[8];
+      // N = 23, L = 21, B = 11 in the ISO 7064 letter table
+      const mod97Proof = remainder(`2321${value.slice(0, 9)}11${value.slice(10)}`, 97) === 1;
+      return elevenProof || mod97Proof;
+    },
+  },
+  PL: {
+    pattern: /^\d{10}$/,
+    checksum: value => {
+      const digits = toDigits(value);
+      return weightedSum(digits, [6, 5, 7, 2, 3, 4, 5, 6, 7]) % 11 === digits[9];
+    },
+  },
+  PT: {
+    pattern: /^[1-9]\d{8}$/,
+    checksum: value => {
+      const digits = toDigits(value);
+      const check = 11 - (weightedSum(digits, [9, 8, 7, 6, 5, 4, 3, 2]) % 11);
+      return (check > 9 ? 0 : check) === digits[8];
+    },
+  },
+  RO: {
+    pattern: /^[1-9]\d{1,9}$/,
+    checksum: value => {
+      const digits = toDigits(value.padStart(10, '0'));
+      return ((weightedSum(digits, [7, 5, 3, 2, 1, 7, 5, 3, 2]) * 10) % 11) % 10 === digits[9];
+    },
+  },
+  SE: {
+    pattern: /^\d{10}01$/,
+    checksum: value => luhn(value.slice(0, 10)),
+  },
+  SI: {
+    pattern: /^[1-9]\d{7}$/,
+    checksum: value => {
+      const digits = toDigits(value);
+      const check = mod11CheckDigit(digits, [8, 7, 6, 5, 4, 3, 2]);
+      return check !== undefined && check % 10 === digits[7];
+    },
+  },
+  SK: {
+    pattern: /^[1-9]\d[2-47-9]\d{7}$/,
+    checksum: value => remainder(value, 11) === 0,
+  },
+};
+
+/**
+ * Validates the format and check digits of an EU VAT number
+ * @param input - VAT number as typed, with its country prefix; spaces, dots and dashes are ignored
+ * @returns The normalised number and its country, or why it is invalid
+ */
+export function validateVatNumber(input: string): VatNumberValidation {
+  const normalized = input.toUpperCase().replace(/[\s.\-/]/g, '');
+  const prefix = normalized.slice(0, 2);
+  const number = normalized.slice(2);
+  const format = VAT_NUMBER_FORMATS[prefix];
+
+  if (!format) {
+    return { valid: false, error: 'VAT number must start with an EU country code, e.g. BE0123456789' };
+  }
+  if (!format.pattern.test(number)) {
+    return { valid: false, error: `${normalized} is not a valid ${prefix} VAT number format` };
+  }
+  if (format.checksum && !format.checksum(number)) {
+    return { valid: false, error: `${normalized} is not a valid VAT number, please check for typos` };
+  }
+
+  return { valid: true, country: prefix === 'EL' ? 'GR' : prefix, vatNumber: normalized };
+}
+
+/**
+ * Reads the VAT number from Snipcart custom fields
+ * @param customFields - Custom fields of the cart or order
+ * @returns The trimmed value, undefined when left empty
+ */
+export function getVatNumberField(customFields: { name: string; value?: unknown }[] = []): string | undefined {
+  const value = customFields.find(field => field.name === VAT_NUMBER_FIELD)?.value;
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Decides whether an order is an intra-EU B2B supply taxed by reverse charge
+ * @param vatNumber - Validated VAT number of the customer
+ * @param destination - ISO 3166-1 alpha-2 country the order ships to
+ * @param homeCountry - Country the shop is VAT registered in (VAT_HOME_COUNTRY)
+ * @param table - Defaults to VAT_RATES
+ * @returns True when the customer, the destination and the shop are in different EU member states
+ */
+export function isReverseCharge(
+  vatNumber: ValidVatNumber,
+  destination: string,
+  homeCountry: string,
+  table: VatRateTable = VAT_RATES,
+): boolean {
+  const home = homeCountry.toUpperCase();
+  const inEu = (country: string) => getVatCountry(country, table)?.scheme === 'OSS';
+
+  return (
+    inEu(home) &&
+    inEu(destination) &&
+    inEu(vatNumber.country) &&
+    destination.toUpperCase() !== home &&
+    vatNumber.country !== home
+  );
+}
+
+/**
+ * VAT details to keep with an order: the customer's VAT number, and for a
+ * reverse-charged order the mention its invoice must carry
+ * @param customFields - Custom fields of the Snipcart order
+ * @param destination - ISO 3166-1 alpha-2 country the order ships to
+ * @param homeCountry - Country the shop is VAT registered in (VAT_HOME_COUNTRY)
+ * @returns The details, or undefined when no valid VAT number was given
+ */
+export function getOrderVatDetails(
+  customFields: { name: string; value?: unknown }[] | undefined,
+  destination: string,
+  homeCountry?: string,
+): { vatNumber: string; vatMention?: string } | undefined {
+  const field = getVatNumberField(customFields);
+  const vatNumber = field ? validateVatNumber(field) : undefined;
+  if (!vatNumber?.valid) return undefined;
+
+  const reverseCharge = !!homeCountry && isReverseCharge(vatNumber, destination, homeCountry);
+  return { vatNumber: vatNumber.vatNumber, vatMention: reverseCharge ? REVERSE_CHARGE_MENTION : undefined };
+}
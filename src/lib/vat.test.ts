@@ -0,0 +1,139 @@
+import { SHIPPING_REGIONS } from './shipping-config';
+import {
+  applyDiscount,
+  calculateShippingVat,
+  calculateVat,
+  getExportVatDeduction,
+  getVatCountry,
+  getVatRate,
+  VAT_RATES,
+} from './vat';
+
+// Standard rates as published by each tax authority, checked 2026-01-01
+const EXPECTED_STANDARD_RATES: Record<string, number> = {
+  AT: 20, BE: 21, BG: 20, CY: 19, CZ: 21, DE: 19, DK: 25, EE: 24, ES: 21, FI: 25.5,
+  FR: 20, GR: 24, HR: 25, HU: 27, IE: 23, IT: 22, LT: 21, LU: 17, LV: 21, MT: 18,
+  NL: 21, PL: 23, PT: 23, RO: 21, SE: 25, SI: 22, SK: 23,
+  GB: 20, NO: 25, CH: 8.1,
+};
+
+function check(label: string, success: boolean): boolean {
+  console.log(`${label}: ${success ? '✅' : '❌'}`);
+  return success;
+}
+
+// Test the standard rate of every country
+export function testStandardRates() {
+  console.log('Testing standard VAT rates per country...\n');
+
+  const results = Object.entries(EXPECTED_STANDARD_RATES).map(([country, rate]) =>
+    check(`${country} standard rate is ${rate}%`, getVatRate(country) === rate),
+  );
+
+  results.push(
+    check('every EU member state is covered under OSS', SHIPPING_REGIONS.EU.every(country => getVatCountry(country)?.scheme === 'OSS')),
+    check('no unexpected countries in the data file', Object.keys(VAT_RATES.countries).length === Object.keys(EXPECTED_STANDARD_RATES).length),
+    check('lower case country codes', getVatRate('be') === 21),
+    check('no VAT outside Europe', getVatRate('US') === undefined && calculateVat('US', [{ price: 10, quantity: 1 }]) === undefined),
+  );
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Test reduced categories and cart calculations
+export function testReducedRates() {
+  console.log('Testing reduced VAT rates...\n');
+
+  const kidsShirt = { price: 20, quantity: 2, categories: ['children'] };
+  const adultShirt = { price: 25, quantity: 1, categories: ['adults'] };
+  const ireland = calculateVat('IE', [kidsShirt, adultShirt]);
+  const belgium = calculateVat('BE', [kidsShirt, adultShirt]);
+
+  const results = [
+    check('IE children\'s clothing is zero-rated', getVatRate('IE', 'childrens-clothing') === 0),
+    check('GB children\'s clothing is zero-rated', getVatRate('GB', 'childrens-clothing') === 0),
+    check('LU children\'s clothing is super-reduced', getVatRate('LU', 'childrens-clothing') === 3),
+    check('standard rate where no reduced rate exists', getVatRate('BE', 'childrens-clothing') === 21),
+    check('IE cart splits rates', ireland?.total === 5.75 && ireland.amounts.length === 2 && ireland.amounts[1].taxable === 40),
+    check('BE cart pays standard rate on everything', belgium?.total === 13.65 && belgium.amounts.length === 1),
+    check('rounded to cents', calculateVat('FI', [{ price: 9.99, quantity: 1 }])?.total === 2.55),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Test backing VAT out of inclusive prices
+export function testInclusivePricing() {
+  console.log('Testing VAT inclusive pricing...\n');
+
+  const inclusive = { pricesIncludeVat: true };
+  const belgium = calculateVat('BE', [{ price: 121, quantity: 1 }], inclusive);
+  const ireland = calculateVat('IE', [{ price: 24.6, quantity: 1 }, { price: 20, quantity: 1, categories: ['children'] }], inclusive);
+
+  const results = [
+    check('VAT backed out of the listed price', belgium?.total === 21 && belgium.amounts[0].taxable === 121),
+    check('zero-rated lines stay VAT free', ireland?.total === 4.6),
+    check('export deduction uses home country VAT', getExportVatDeduction([{ price: 24.2, quantity: 2 }], 'BE') === 8.4),
+    check('no deduction for unknown home country', getExportVatDeduction([{ price: 24.2, quantity: 2 }], 'US') === 0),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Test VAT on the shipping charge
+export function testShippingVat() {
+  console.log('Testing shipping VAT...\n');
+
+  const kidsShirt = { price: 20, quantity: 2, categories: ['children'] };
+  const adultShirt = { price: 25, quantity: 1, categories: ['adults'] };
+  const belgium = calculateShippingVat('BE', [adultShirt], 10);
+  const ireland = calculateShippingVat('IE', [kidsShirt, adultShirt], 13);
+
+  const results = [
+    check('shipping taxed at the goods rate', belgium?.total === 2.1 && belgium.amounts[0].rate === 21),
+    check('mixed cart splits shipping by value', ireland?.total === 1.15 && ireland.amounts.find(entry => entry.rate === 23)?.taxable === 5),
+    check('backed out of inclusive shipping', calculateShippingVat('BE', [adultShirt], 12.1, { pricesIncludeVat: true })?.total === 2.1),
+    check('free shipping adds no VAT', calculateShippingVat('BE', [adultShirt], 0)?.amounts.length === 0),
+    check('no shipping VAT outside Europe', calculateShippingVat('US', [adultShirt], 10) === undefined),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Test VAT on discounted carts
+export function testDiscounts() {
+  console.log('Testing discounted VAT...\n');
+
+  const kidsShirt = { price: 20, quantity: 2, categories: ['children'] };
+  const adultShirt = { price: 25, quantity: 1, categories: ['adults'] };
+  const belgium = calculateVat('BE', [{ price: 100, quantity: 1 }], { discount: 20 });
+  const ireland = calculateVat('IE', [kidsShirt, adultShirt], { discount: 13 });
+  const inclusive = calculateVat('BE', [{ price: 121, quantity: 1 }], { pricesIncludeVat: true, discount: 12.1 });
+  const [discountedKids] = applyDiscount([kidsShirt, adultShirt], 13);
+
+  const results = [
+    check('VAT on the discounted price', belgium?.total === 16.8 && belgium.amounts[0].taxable === 80),
+    check('discount is spread over the rates', ireland?.total === 4.6 && ireland.amounts.find(entry => entry.rate === 0)?.taxable === 32),
+    check('inclusive VAT backed out of the discounted price', inclusive?.total === 18.9),
+    check('discount above the cart value leaves no VAT', calculateVat('BE', [{ price: 10, quantity: 1 }], { discount: 15 })?.total === 0),
+    check('discount lowers the unit price, not the quantity', discountedKids.price === 16 && discountedKids.quantity === 2),
+    check('no discount leaves the lines alone', applyDiscount([adultShirt])[0] === adultShirt),
+    check('export deduction after the discount', getExportVatDeduction([{ price: 24.2, quantity: 2 }], 'BE', 4.84) === 7.56),
+  ];
+
+  console.log('');
+  return results.every(Boolean);
+}
+
+// Run tests if this file is executed directly
+if (typeof window === 'undefined' && require.main === module) {
+  testStandardRates();
+  testReducedRates();
+  testInclusivePricing();
+  testShippingVat();
+  testDiscounts();
+}
@@ -0,0 +1,249 @@
+/**
+ * VAT
+ *
+ * Consumer VAT for every EU member state under the One-Stop Shop (OSS)
+ * scheme, plus the United Kingdom, Norway (VOEC) and Switzerland. Rates live
+ * in `vat-rates.json` so they can be updated without touching code: each
+ * country has a standard rate and optional reduced rates per tax category.
+ *
+ * Cart lines get a tax category from their shop category (Snipcart's
+ * `data-item-categories`, see `category-config.ts`) through
+ * PRODUCT_TAX_CATEGORIES. Lines without one pay the standard rate.
+ *
+ * Prices are VAT exclusive unless NEXT_PUBLIC_PRICES_INCLUDE_VAT=true, in
+ * which case the VAT is backed out of the listed price instead of added.
+ * Order discounts are spread over the lines first, so VAT follows what the
+ * customer actually pays.
+ */
+
+import vatRates from './vat-rates.json';
+
+export type VatScheme = 'OSS' | 'UK' | 'VOEC' | 'CH';
+
+export interface VatCountry {
+  scheme: VatScheme;
+  /** Percentage, e.g. 21 for 21%. */
+  standard: number;
+  /** Percentage per tax category, where it differs from the standard rate. */
+  reduced?: Record<string, number>;
+}
+
+export interface VatRateTable {
+  /** Date the rates were last checked. */
+  updated: string;
+  /** Tax category ID to description. */
+  categories: Record<string, string>;
+  countries: Record<string, VatCountry>;
+}
+
+export interface VatLine {
+  /** Price per unit, VAT excluded. */
+  price: number;
+  quantity: number;
+  /** Shop categories of the product. */
+  categories?: string[];
+}
+
+export interface VatCalculationOptions {
+  /** Prices already include VAT: back it out instead of adding it. */
+  pricesIncludeVat?: boolean;
+  /** Order discount, priced like the lines. */
+  discount?: number;
+}
+
+export interface VatAmount {
+  /** Percentage. */
+  rate: number;
+  /** Sum of the lines taxed at this rate, as priced (VAT included in inclusive mode). */
+  taxable: number;
+  amount: number;
+}
+
+export interface VatCalculation {
+  country: string;
+  scheme: VatScheme;
+  /** One entry per rate, highest rate first. Zero-rated lines are included. */
+  amounts: VatAmount[];
+  total: number;
+}
+
+export const VAT_RATES = vatRates as VatRateTable;
+
+/** Shop category (see `category-config.ts`) to tax category in `vat-rates.json`. */
+export const PRODUCT_TAX_CATEGORIES: Record<string, string> = {
+  children: 'childrens-clothing',
+};
+
+/**
+ * Rounds an amount to cents
+ */
+function roundCents(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Whether listed prices include VAT (NEXT_PUBLIC_PRICES_INCLUDE_VAT=true).
+ * Available in the browser so product pages can say so.
+ */
+export function pricesIncludeVat(): boolean {
+  return process.env.NEXT_PUBLIC_PRICES_INCLUDE_VAT === 'true';
+}
+
+/**
+ * Whether customers outside the VAT area pay the VAT exclusive price in
+ * inclusive mode (VAT_EXPORT_PRICES_EXCLUDE_VAT=true)
+ */
+export function exportPricesExcludeVat(): boolean {
+  return pricesIncludeVat() && process.env.VAT_EXPORT_PRICES_EXCLUDE_VAT === 'true';
+}
+
+/**
+ * Looks up the VAT rules of a country
+ * @param country - ISO 3166-1 alpha-2 country code
+ * @param table - Defaults to VAT_RATES
+ * @returns The rules, or undefined if the shop does not charge VAT there
+ */
+export function getVatCountry(country: string, table: VatRateTable = VAT_RATES): VatCountry | undefined {
+  return table.countries[country.toUpperCase()];
+}
+
+/**
+ * Finds the tax category of a product
+ * @param categories - Shop categories of the product
+ * @returns The first category with a tax category, if any
+ */
+export function getTaxCategory(categories: string[] = []): string | undefined {
+  return categories.map(category => PRODUCT_TAX_CATEGORIES[category]).find(Boolean);
+}
+
+/**
+ * Looks up the VAT rate for a tax category in a country
+ * @param country - ISO 3166-1 alpha-2 country code
+ * @param taxCategory - Tax category; undefined for the standard rate
+ * @param table - Defaults to VAT_RATES
+ * @returns The rate in percent, or undefined if the shop does not charge VAT there
+ */
+export function getVatRate(
+  country: string,
+  taxCategory?: string,
+  table: VatRateTable = VAT_RATES,
+): number | undefined {
+  const rules = getVatCountry(country, table);
+  if (!rules) return undefined;
+  return (taxCategory !== undefined ? rules.reduced?.[taxCategory] : undefined) ?? rules.standard;
+}
+
+/**
+ * Spreads an order discount over the cart lines in proportion to their value
+ * @param lines - Cart lines
+ * @param discount - Order discount, priced like the lines
+ * @returns The lines at their discounted unit prices; never below zero
+ */
+export function applyDiscount(lines: VatLine[], discount = 0): VatLine[] {
+  const goodsTotal = lines.reduce((total, line) => total + line.price * line.quantity, 0);
+  if (!(discount > 0) || goodsTotal <= 0) return lines;
+
+  const factor = Math.max(goodsTotal - discount, 0) / goodsTotal;
+  return lines.map(line => ({ ...line, price: line.price * factor }));
+}
+
+/**
+ * Calculates the VAT on a cart
+ * @param country - ISO 3166-1 alpha-2 destination country
+ * @param lines - Cart lines
+ * @param options - Whether the prices include VAT, and the order discount
+ * @param table - Defaults to VAT_RATES
+ * @returns VAT per rate, or undefined if the shop does not charge VAT there
+ */
+export function calculateVat(
+  country: string,
+  lines: VatLine[],
+  { pricesIncludeVat: inclusive = false, discount }: VatCalculationOptions = {},
+  table: VatRateTable = VAT_RATES,
+): VatCalculation | undefined {
+  const rules = getVatCountry(country, table);
+  if (!rules) return undefined;
+
+  const taxableByRate = new Map<number, number>();
+  applyDiscount(lines, discount).forEach(line => {
+    const rate = getVatRate(country, getTaxCategory(line.categories), table) ?? rules.standard;
+    taxableByRate.set(rate, (taxableByRate.get(rate) ?? 0) + line.price * line.quantity);
+  });
+
+  const amounts = Array.from(taxableByRate.entries())
+    .sort(([a], [b]) => b - a)
+    .map(([rate, taxable]) => ({
+      rate,
+      taxable: roundCents(taxable),
+      amount: roundCents(inclusive ? (taxable * rate) / (100 + rate) : (taxable * rate) / 100),
+    }));
+
+  return {
+    country: country.toUpperCase(),
+    scheme: rules.scheme,
+    amounts,
+    total: roundCents(amounts.reduce((total, entry) => total + entry.amount, 0)),
+  };
+}
+
+/**
+ * Calculates the VAT on the shipping charge. Shipping follows the VAT
+ * treatment of the goods, so with mixed rates it is split in proportion to
+ * the value of the lines at each rate.
+ * @param country - ISO 3166-1 alpha-2 destination country
+ * @param lines - Cart lines
+ * @param shippingFees - Shipping charge, priced like the lines
+ * @param options - Whether the prices include VAT, and the order discount
+ * @param table - Defaults to VAT_RATES
+ * @returns VAT per rate on the shipping charge, or undefined if the shop does not charge VAT there
+ */
+export function calculateShippingVat(
+  country: string,
+  lines: VatLine[],
+  shippingFees: number,
+  options: VatCalculationOptions = {},
+  table: VatRateTable = VAT_RATES,
+): VatCalculation | undefined {
+  const rules = getVatCountry(country, table);
+  const goods = calculateVat(country, lines, options, table);
+  if (!rules || !goods) return undefined;
+
+  const goodsTotal = goods.amounts.reduce((total, entry) => total + entry.taxable, 0);
+  const shares =
+    goodsTotal > 0
+      ? goods.amounts.map(entry => ({ rate: entry.rate, price: (shippingFees * entry.taxable) / goodsTotal }))
+      : [{ rate: rules.standard, price: shippingFees }];
+
+  // Each share is taxed at the rate of the goods it belongs to
+  const amounts = shares
+    .filter(share => share.price > 0)
+    .map(({ rate, price }) => ({
+      rate,
+      taxable: roundCents(price),
+      amount: roundCents(options.pricesIncludeVat ? (price * rate) / (100 + rate) : (price * rate) / 100),
+    }));
+
+  return {
+    ...goods,
+    amounts,
+    total: roundCents(amounts.reduce((total, entry) => total + entry.amount, 0)),
+  };
+}
+
+/**
+ * Amount to deduct from VAT inclusive prices for a cart shipped outside the
+ * VAT area, so the customer pays the VAT exclusive price
+ * @param lines - Cart lines, prices VAT included
+ * @param homeCountry - Country whose VAT the listed prices include (VAT_HOME_COUNTRY)
+ * @param discount - Order discount, VAT included
+ * @param table - Defaults to VAT_RATES
+ * @returns The VAT included in the prices, 0 if the home country is unknown
+ */
+export function getExportVatDeduction(
+  lines: VatLine[],
+  homeCountry: string,
+  discount = 0,
+  table: VatRateTable = VAT_RATES,
+): number {
+  return calculateVat(homeCountry, lines, { pricesIncludeVat: true, discount }, table)?.total ?? 0;
+}
@@ -0,0 +1,111 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import type { WebhookVerificationResult } from '../types';
+
+function check(label: string, success: boolean): boolean {
+  console.log(`${label}: ${success ? '✅' : '❌'}`);
+  return success;
+}
+
+function createRequest(invoiceNumber: string, verification?: WebhookVerificationResult): NextApiRequest {
+  return {
+    method: 'POST',
+    headers: verification ? { 'x-test-verification': verification } : {},
+    query: {},
+    body: { eventName: 'order.completed', content: { invoiceNumber } },
+  } as unknown as NextApiRequest;
+}
+
+function createResponse(): NextApiResponse {
+  const res = {
+    status: () => res,
+    json: () => res,
+  } as unknown as NextApiResponse;
+  return res;
+}
+
+async function rejects(promise: Promise<unknown>): Promise<boolean> {
+  try {
+    await promise;
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+// Test that only deliveries verified on arrival can be replayed
+export async function testReplayRequiresVerification() {
+  console.log('Testing webhook journal replays...\n');
+
+  const dataDir = await fs.mkdtemp(path.join(os.tmpdir(), 'webhook-journal-'));
+  process.env.DATA_DIR = dataDir;
+  const {
+    isWebhookReplay,
+    listWebhookJournal,
+    recordWebhookVerification,
+    replayWebhookJournalEntry,
+    withWebhookJournal,
+  } = await import('./webhook-journal');
+
+  try {
+    // Stand-in for the webhook handler: takes the verification result from a
+    // test header and skips verification for replays, like the real one
+    const handled: string[] = [];
+    const handler = withWebhookJournal(async (req: NextApiRequest, res: NextApiResponse) => {
+      if (!isWebhookReplay(req)) {
+        const verification = req.headers['x-test-verification'] as WebhookVerificationResult | undefined;
+        if (verification) recordWebhookVerification(req, verification);
+        if (verification !== 'verified') return res.status(401).json({ message: 'Not Authorized' });
+      }
+      handled.push(req.body.content.invoiceNumber);
+      return res.status(200).json({ invoiceNumber: req.body.content.invoiceNumber });
+    });
+
+    await handler(createRequest('SNIP-1', 'verified'), createResponse());
+    await handler(createRequest('SNIP-2', 'invalid_token'), createResponse());
+    await handler(createRequest('SNIP-3', 'replayed'), createResponse());
+    await handler(createRequest('SNIP-4'), createResponse());
+
+    const delivered = await listWebhookJournal();
+    const idOf = (invoiceNumber: string) => delivered.find(entry => entry.invoiceNumber === invoiceNumber)?.id ?? '';
+
+    const replay = await replayWebhookJournalEntry(idOf('SNIP-1'), handler);
+    const [replayEntry] = await listWebhookJournal({ limit: 1 });
+
+    const invalidRefused = await rejects(replayWebhookJournalEntry(idOf('SNIP-2'), handler));
+    const replayedRefused = await rejects(replayWebhookJournalEntry(idOf('SNIP-3'), handler));
+    const unrecordedRefused = await rejects(replayWebhookJournalEntry(idOf('SNIP-4'), handler));
+    const replayOfReplayRefused = await rejects(replayWebhookJournalEntry(replayEntry.id, handler));
+    const unknownRefused = await rejects(replayWebhookJournalEntry('missing', handler));
+    const journal = await listWebhookJournal();
+    const rejected = delivered.find(entry => entry.invoiceNumber === 'SNIP-2');
+
+    const results = [
+      check('every delivery is journaled', delivered.length === 4),
+      check('verification result is recorded', rejected?.verification === 'invalid_token'),
+      check('rejected delivery keeps its status code', rejected?.statusCode === 401),
+      check('verified delivery is replayed', replay.statusCode === 200 && handled.join() === 'SNIP-1,SNIP-1'),
+      check('replay is journaled as a replay', replayEntry?.replayOf === idOf('SNIP-1')),
+      check('delivery with an invalid token is refused', invalidRefused),
+      check('delivery with a replayed token is refused', replayedRefused),
+      check('delivery without a recorded verification is refused', unrecordedRefused),
+      check('earlier replay is refused', replayOfReplayRefused),
+      check('unknown entry is refused', unknownRefused),
+      check('refused replays do not run the handler', handled.length === 2 && journal.length === 5),
+    ];
+
+    console.log('');
+    return results.every(Boolean);
+  } finally {
+    await fs.rm(dataDir, { recursive: true, force: true });
+  }
+}
+
+// Run tests if this file is executed directly
+if (typeof window === 'undefined' && require.main === module) {
+  testReplayRequiresVerification();
+}
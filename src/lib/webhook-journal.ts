@@ -0,0 +1,214 @@
+/**
+ * Webhook Journal
+ *
+ * Keeps the most recent Snipcart webhook deliveries in `<DATA_DIR>/webhook-journal.json`
+ * together with the token verification result, the handler's response and
+ * how long it took. Stored deliveries can be replayed against the current
+ * handler, e.g. after copying a production journal into a local DATA_DIR to
+ * reproduce a fulfillment bug.
+ *
+ * The journal holds customer data (emails, addresses); it never stores the
+ * request token or any other header.
+ */
+
+import { randomUUID } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { createJsonStore } from './json-store';
+import type { WebhookJournalEntry, WebhookVerificationResult } from '../types';
+
+type ApiHandler<Req extends NextApiRequest = NextApiRequest> = (req: Req, res: NextApiResponse) => unknown;
+
+interface JournalContext {
+  verification?: WebhookVerificationResult;
+  replayOf?: string;
+}
+
+export interface WebhookJournalFilter {
+  eventName?: string;
+  invoiceNumber?: string;
+  limit?: number;
+}
+
+export interface ReplayResult {
+  statusCode: number;
+  outcome?: unknown;
+}
+
+const DEFAULT_JOURNAL_SIZE = 500;
+
+const journalStore = createJsonStore<WebhookJournalEntry[]>('webhook-journal', () => []);
+
+// Per-request journal data, set by the handler while it runs
+const contexts = new WeakMap<NextApiRequest, JournalContext>();
+
+/**
+ * Reads how many deliveries to keep from WEBHOOK_JOURNAL_SIZE
+ */
+function getJournalSize(): number {
+  const size = Number(process.env.WEBHOOK_JOURNAL_SIZE);
+  return Number.isInteger(size) && size > 0 ? size : DEFAULT_JOURNAL_SIZE;
+}
+
+/**
+ * Records the outcome of the request token check for the journal entry
+ * @param req - The webhook request
+ * @param verification - Verification result
+ */
+export function recordWebhookVerification(req: NextApiRequest, verification: WebhookVerificationResult): void {
+  const context = contexts.get(req);
+  if (context) {
+    context.verification = verification;
+  }
+}
+
+/**
+ * Checks whether a request is a journal replay. Replays are created in-process
+ * only, so this cannot be triggered from the outside.
+ * @param req - The webhook request
+ */
+export function isWebhookReplay(req: NextApiRequest): boolean {
+  return !!contexts.get(req)?.replayOf;
+}
+
+/**
+ * Wraps a webhook handler so every delivery is written to the journal
+ * @param handler - The Snipcart webhook handler
+ * @returns The journaled handler
+ */
+export function withWebhookJournal<Req extends NextApiRequest>(handler: ApiHandler<Req>): ApiHandler<Req> {
+  return async (req, res) => {
+    const startedAt = Date.now();
+    const context = contexts.get(req) ?? {};
+    contexts.set(req, context);
+
+    let statusCode = 200;
+    let outcome: unknown;
+
+    const status = res.status.bind(res);
+    res.status = code => {
+      statusCode = code;
+      return status(code);
+    };
+    const json = res.json.bind(res);
+    res.json = body => {
+      outcome = body;
+      return json(body);
+    };
+
+    try {
+      return await handler(req, res);
+    } catch (error) {
+      statusCode = 500;
+      outcome = { message: error instanceof Error ? error.message : String(error) };
+      throw error;
+    } finally {
+      const body = req.body ?? {};
+      const content = body.content ?? {};
+
+      await appendJournalEntry({
+        id: randomUUID(),
+        receivedAt: new Date(startedAt).toISOString(),
+        eventName: typeof body.eventName === 'string' ? body.eventName : undefined,
+        invoiceNumber: typeof content.invoiceNumber === 'string' ? content.invoiceNumber : undefined,
+        mode: typeof body.mode === 'string' ? body.mode : undefined,
+        verification: context.verification,
+        statusCode,
+        outcome,
+        durationMs: Date.now() - startedAt,
+        body,
+        replayOf: context.replayOf,
+      });
+    }
+  };
+}
+
+/**
+ * Appends an entry, dropping the oldest ones beyond WEBHOOK_JOURNAL_SIZE.
+ * Journal failures are logged but never fail the webhook itself.
+ */
+async function appendJournalEntry(entry: WebhookJournalEntry): Promise<void> {
+  try {
+    await journalStore.update(entries => {
+      entries.push(entry);
+      return entries.slice(-getJournalSize());
+    });
+  } catch (error) {
+    console.error('Failed to write webhook journal entry:', error);
+  }
+}
+
+/**
+ * Lists journal entries, newest first, without their request bodies
+ * @param filter - Optional event name, invoice number and result limit
+ */
+export async function listWebhookJournal(
+  { eventName, invoiceNumber, limit = 50 }: WebhookJournalFilter = {},
+): Promise<Array<Omit<WebhookJournalEntry, 'body'>>> {
+  const entries = await journalStore.read();
+  return entries
+    .filter(entry => !eventName || entry.eventName === eventName)
+    .filter(entry => !invoiceNumber || entry.invoiceNumber === invoiceNumber)
+    .reverse()
+    .slice(0, limit)
+    .map(({ body: _body, ...summary }) => summary);
+}
+
+/**
+ * Looks up a single journal entry, including the request body
+ * @param id - Journal entry ID
+ */
+export async function getWebhookJournalEntry(id: string): Promise<WebhookJournalEntry | undefined> {
+  const entries = await journalStore.read();
+  return entries.find(entry => entry.id === id);
+}
+
+/**
+ * Replays a stored delivery against a handler. Token verification is
+ * skipped (Snipcart tokens expire), so only deliveries whose token was
+ * verified when they arrived can be replayed - never a rejected or forged
+ * request, nor an earlier replay. Everything else runs as it would for a live
+ * delivery - including calls to Printful and Snipcart.
+ * @param id - Journal entry ID
+ * @param handler - The journaled webhook handler
+ * @returns The response the handler produced
+ * @throws Error if the entry does not exist or was not verified
+ */
+export async function replayWebhookJournalEntry<Req extends NextApiRequest>(
+  id: string,
+  handler: ApiHandler<Req>,
+): Promise<ReplayResult> {
+  const entry = await getWebhookJournalEntry(id);
+  if (!entry) {
+    throw new Error(`No webhook journal entry with ID ${id}`);
+  }
+  if (entry.verification !== 'verified') {
+    throw new Error(
+      `Webhook journal entry ${id} cannot be replayed: its token verification was ${entry.verification ?? 'not recorded'}`,
+    );
+  }
+
+  const req = { method: 'POST', headers: {}, query: {}, body: entry.body } as unknown as Req;
+  contexts.set(req, { replayOf: entry.id });
+
+  const result: ReplayResult = { statusCode: 200 };
+  const res = {
+    status(code: number) {
+      result.statusCode = code;
+      return res;
+    },
+    json(body: unknown) {
+      result.outcome = body;
+      return res;
+    },
+    end() {
+      return res;
+    },
+    setHeader() {
+      return res;
+    },
+  } as unknown as NextApiResponse;
+
+  await handler(req, res);
+  return result;
+}
@@ -7,6 +7,7 @@ import "../styles/app.css";
 import { defaultSEO } from "../../next-seo.config";
 import { WishlistProvider } from "../context/wishlist";
 import { ThemeProvider } from "../context/theme";
+import { ShippingCountryProvider } from "../context/shipping-country";
 import Layout from "../components/Layout";
 import ErrorBoundary from "../components/ErrorBoundary";
 import { useSnipcartTheme } from "../hooks/useSnipcartTheme";
@@ -47,11 +48,13 @@ function MyApp({ Component, pageProps }: AppProps) {
     <ErrorBoundary>
       <ThemeProvider>
         <WishlistProvider>
-          <SnipcartThemeSync />
-          <Layout>
-            <DefaultSeo {...defaultSEO} />
-            <Component {...pageProps} />
-          </Layout>
+          <ShippingCountryProvider>
+            <SnipcartThemeSync />
+            <Layout>
+              <DefaultSeo {...defaultSEO} />
+              <Component {...pageProps} />
+            </Layout>
+          </ShippingCountryProvider>
         </WishlistProvider>
       </ThemeProvider>
     </ErrorBoundary>
@@ -43,6 +43,10 @@ class MyDocument extends Document {
                 <snipcart-label for="phone">Phone number</snipcart-label>
                 <snipcart-input name="phone"></snipcart-input>
               </div>
+              <div className="snipcart-form__field">
+                <snipcart-label for="vatNumber">VAT number (businesses, optional)</snipcart-label>
+                <snipcart-input name="vatNumber" placeholder="e.g. BE0123456789"></snipcart-input>
+              </div>
             </address-fields>
           </div>
         </body>
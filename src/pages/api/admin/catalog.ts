@@ -0,0 +1,42 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { isAdminRequest } from '../../../lib/admin-auth';
+import { getCatalogStatus, syncCatalog } from '../../../lib/catalog-sync';
+import { CatalogSyncQuerySchema, safeValidate } from '../../../lib/validation';
+
+/**
+ * Product catalog administration
+ *
+ * GET  - time of the last sync and the number of stored products and variants
+ * POST - syncs the catalog with Printful now, refetching changed products
+ *        (`?full=true` refetches every product), along with the sync variant
+ *        cache orders are placed from (call it from a cron)
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ message: 'Not Authorized' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json(await getCatalogStatus());
+    }
+
+    if (req.method === 'POST') {
+      const query = safeValidate(CatalogSyncQuerySchema, req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: `Validation failed: ${query.error}` });
+      }
+
+      const result = await syncCatalog({ full: query.data.full === 'true' });
+      return res.status(200).json(result);
+    }
+
+    return res.status(405).json({ message: 'Method not allowed' });
+  } catch (err) {
+    console.error('Catalog API error:', err);
+    res.status(500).json({
+      message: err instanceof Error ? err.message : 'Something went wrong',
+    });
+  }
+}
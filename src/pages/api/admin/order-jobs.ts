@@ -0,0 +1,50 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { isAdminRequest } from '../../../lib/admin-auth';
+import { confirmDueDrafts } from '../../../lib/confirm-order';
+import { listOrderJobs, processDueOrderJobs, redriveDeadLetter } from '../../../lib/order-queue';
+import { safeValidate, OrderJobActionSchema } from '../../../lib/validation';
+
+/**
+ * Order job administration
+ *
+ * GET  - lists queued jobs and dead-lettered orders
+ * POST - `{ "action": "process" }` retries every due job and confirms paid
+ *        drafts past their hold window (call it from a cron)
+ *        `{ "action": "redrive", "invoiceNumber": "..." }` re-drives a dead letter
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ message: 'Not Authorized' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      return res.status(200).json(await listOrderJobs());
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ message: 'Method not allowed' });
+    }
+
+    const validation = safeValidate(OrderJobActionSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({ message: `Validation failed: ${validation.error}` });
+    }
+
+    const command = validation.data;
+    if (command.action === 'process') {
+      const summary = await processDueOrderJobs();
+      const confirmed = await confirmDueDrafts();
+      return res.status(200).json({ ...summary, confirmed });
+    }
+
+    const outcome = await redriveDeadLetter(command.invoiceNumber);
+    return res.status(200).json({ invoiceNumber: command.invoiceNumber, outcome });
+  } catch (err) {
+    console.error('Order jobs API error:', err);
+    res.status(500).json({
+      message: err instanceof Error ? err.message : 'Something went wrong',
+    });
+  }
+}
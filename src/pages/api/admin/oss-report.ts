@@ -0,0 +1,49 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { isAdminRequest } from '../../../lib/admin-auth';
+import { formatOssCsv, getOssReport, getPreviousQuarter } from '../../../lib/oss-report';
+import { OssReportQuerySchema, safeValidate } from '../../../lib/validation';
+
+/**
+ * Quarterly OSS VAT report
+ *
+ * GET - taxable amounts and VAT per member state and rate for a quarter
+ *       (`?quarter=2026-Q3`, defaults to the previous quarter)
+ *       `?format=csv` downloads the CSV for the OSS portal
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ message: 'Not Authorized' });
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  try {
+    const query = safeValidate(OssReportQuerySchema, req.query);
+    if (!query.success) {
+      return res.status(400).json({ message: `Validation failed: ${query.error}` });
+    }
+
+    const { quarter = getPreviousQuarter(), format = 'json' } = query.data;
+    const report = await getOssReport(quarter);
+
+    if (report.skipped.length > 0) {
+      console.warn('OSS report leaves out orders:', report.skipped);
+    }
+
+    if (format === 'csv') {
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="oss-${quarter}.csv"`);
+      return res.status(200).send(formatOssCsv(report));
+    }
+
+    return res.status(200).json(report);
+  } catch (err) {
+    console.error('OSS report API error:', err);
+    res.status(500).json({
+      message: err instanceof Error ? err.message : 'Something went wrong',
+    });
+  }
+}
@@ -0,0 +1,37 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { isAdminRequest } from '../../../lib/admin-auth';
+import { listFallbackQuotes } from '../../../lib/shipping-fallback';
+import { clearShippingRateCache, getShippingRateMetrics } from '../../../lib/shipping-rate-cache';
+
+/**
+ * Shipping rate cache administration
+ *
+ * GET    - cache hit/miss metrics, the number of cached quotes and the
+ *          fallback quotes served while Printful was unavailable (newest first)
+ * DELETE - empties the cache, e.g. after changing products, and resets the metrics
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ message: 'Not Authorized' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const [metrics, fallbackQuotes] = await Promise.all([getShippingRateMetrics(), listFallbackQuotes()]);
+      return res.status(200).json({ ...metrics, fallbackQuotes });
+    }
+
+    if (req.method === 'DELETE') {
+      await clearShippingRateCache();
+      return res.status(200).json({ message: 'Shipping rate cache cleared' });
+    }
+
+    return res.status(405).json({ message: 'Method not allowed' });
+  } catch (err) {
+    console.error('Shipping rates API error:', err);
+    res.status(500).json({
+      message: err instanceof Error ? err.message : 'Something went wrong',
+    });
+  }
+}
@@ -0,0 +1,61 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { isAdminRequest } from '../../../lib/admin-auth';
+import { safeValidate, WebhookJournalActionSchema, WebhookJournalQuerySchema } from '../../../lib/validation';
+import {
+  getWebhookJournalEntry,
+  listWebhookJournal,
+  replayWebhookJournalEntry,
+} from '../../../lib/webhook-journal';
+import snipcartWebhook from '../snipcart/webhook';
+
+/**
+ * Snipcart webhook journal administration
+ *
+ * GET  - lists journaled deliveries, newest first (`?eventName=`, `?invoiceNumber=`, `?limit=`)
+ *        `?id=...` returns one delivery including the request body
+ * POST - `{ "action": "replay", "id": "..." }` runs a stored delivery through
+ *        the current Snipcart webhook handler, skipping token verification
+ *        (only for deliveries that were verified when they arrived)
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (!isAdminRequest(req)) {
+    return res.status(401).json({ message: 'Not Authorized' });
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const query = safeValidate(WebhookJournalQuerySchema, req.query);
+      if (!query.success) {
+        return res.status(400).json({ message: `Validation failed: ${query.error}` });
+      }
+
+      const { id, ...filter } = query.data;
+      if (id) {
+        const entry = await getWebhookJournalEntry(id);
+        return entry
+          ? res.status(200).json(entry)
+          : res.status(404).json({ message: 'Journal entry not found' });
+      }
+
+      return res.status(200).json({ events: await listWebhookJournal(filter) });
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ message: 'Method not allowed' });
+    }
+
+    const validation = safeValidate(WebhookJournalActionSchema, req.body);
+    if (!validation.success) {
+      return res.status(400).json({ message: `Validation failed: ${validation.error}` });
+    }
+
+    const result = await replayWebhookJournalEntry(validation.data.id, snipcartWebhook);
+    return res.status(200).json({ replayOf: validation.data.id, ...result });
+  } catch (err) {
+    console.error('Webhook journal API error:', err);
+    res.status(500).json({
+      message: err instanceof Error ? err.message : 'Something went wrong',
+    });
+  }
+}
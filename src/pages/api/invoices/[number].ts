@@ -0,0 +1,52 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { getInvoicePdf, verifyInvoiceLink } from '../../../lib/invoices';
+import { createRateLimiter, RATE_LIMITS } from '../../../lib/rate-limit';
+import { InvoiceDownloadQuerySchema, safeValidate } from '../../../lib/validation';
+
+/**
+ * Invoice PDF download
+ *
+ * GET /api/invoices/<number>?expires=<unix seconds>&signature=<hex>
+ *
+ * Only answers links created by `createInvoiceLink`, which are emailed to the
+ * customer when the order completes. Expired or tampered links get a 403.
+ */
+export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const identifier =
+    (req.headers['x-forwarded-for'] as string) || (req.socket?.remoteAddress as string) || 'unknown';
+  const rateLimiter = createRateLimiter(RATE_LIMITS.API);
+  if (!rateLimiter(identifier).allowed) {
+    res.setHeader('Retry-After', Math.ceil(RATE_LIMITS.API.windowMs / 1000));
+    return res.status(429).json({ message: 'Rate limit exceeded. Please try again later.' });
+  }
+
+  const query = safeValidate(InvoiceDownloadQuerySchema, req.query);
+  if (!query.success) {
+    return res.status(400).json({ message: `Validation failed: ${query.error}` });
+  }
+
+  const { number, expires, signature } = query.data;
+  if (!verifyInvoiceLink(number, expires, signature)) {
+    return res.status(403).json({ message: 'This invoice link is invalid or has expired' });
+  }
+
+  try {
+    const pdf = await getInvoicePdf(number);
+    if (!pdf) {
+      return res.status(404).json({ message: 'Invoice not found' });
+    }
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `inline; filename="${number}.pdf"`);
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.status(200).send(pdf);
+  } catch (err) {
+    console.error('Invoice download error:', err);
+    res.status(500).json({ message: err instanceof Error ? err.message : 'Unable to load the invoice' });
+  }
+}
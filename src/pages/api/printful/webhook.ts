@@ -0,0 +1,173 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import { refreshCatalogProduct, removeCatalogProduct } from '../../../lib/catalog-sync';
+import {
+  findLedgerEntryByPrintfulOrderId,
+  getLedgerEntry,
+  updateFulfillment,
+} from '../../../lib/order-ledger';
+import {
+  addSnipcartOrderNotification,
+  findSnipcartOrderToken,
+  updateSnipcartOrder,
+} from '../../../lib/snipcart-client';
+import { safeValidate, PrintfulWebhookRequestSchema } from '../../../lib/validation';
+import type { OrderLedgerEntry, PrintfulWebhookEvent } from '../../../types';
+
+type Data = {
+  message: string;
+  invoiceNumber?: string;
+};
+
+// Events that report on an order we created from a Snipcart invoice
+const orderEvents: PrintfulWebhookEvent[] = [
+  'package_shipped',
+  'order_failed',
+  'order_canceled',
+  'order_put_hold',
+];
+
+// Events that change the storefront catalog and the sync variants orders are built from
+const productEvents: PrintfulWebhookEvent[] = ['product_synced', 'product_updated', 'product_deleted'];
+
+/**
+ * Printful webhook receiver
+ *
+ * Printful does not sign webhook deliveries, so the URL registered with
+ * Printful carries a shared secret: `/api/printful/webhook?secret=...`.
+ * Fulfillment events are mapped back to the originating Snipcart order via
+ * the order `external_id`, which is the Snipcart invoice number. Product
+ * events keep the product catalog and the sync variant cache in step with
+ * Printful.
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<Data>,
+) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ message: 'Method not allowed' });
+  }
+
+  const secret = process.env.PRINTFUL_WEBHOOK_SECRET;
+  if (!secret) {
+    return res.status(500).json({ message: 'Server configuration error' });
+  }
+
+  if (req.query.secret !== secret) {
+    return res.status(401).json({ message: 'Not Authorized' });
+  }
+
+  const validation = safeValidate(PrintfulWebhookRequestSchema, req.body);
+  if (!validation.success) {
+    console.error('Invalid Printful webhook payload:', validation.error);
+    return res.status(400).json({ message: `Validation failed: ${validation.error}` });
+  }
+
+  const { type, data } = validation.data;
+
+  if (productEvents.includes(type) && data.sync_product) {
+    try {
+      if (type === 'product_deleted') {
+        await removeCatalogProduct(data.sync_product.id);
+      } else {
+        await refreshCatalogProduct(data.sync_product.id);
+      }
+      return res.status(200).json({ message: 'Catalog updated' });
+    } catch (err) {
+      console.error('Printful product webhook error:', err);
+      return res.status(500).json({ message: 'Something went wrong' });
+    }
+  }
+
+  if (!orderEvents.includes(type)) {
+    return res.status(200).json({ message: `Event ${type} ignored` });
+  }
+
+  const entry = await findOrderEntry(data.order);
+  if (!entry) {
+    // Orders created outside this shop (e.g. manual orders) have no invoice
+    console.warn('Printful webhook for unknown order:', {
+      type,
+      orderId: data.order?.id,
+      externalId: data.order?.external_id,
+    });
+    return res.status(200).json({ message: 'No matching order' });
+  }
+
+  try {
+    const snipcartToken = entry.snipcartToken || (await findSnipcartOrderToken(entry.invoiceNumber));
+    if (!snipcartToken) {
+      throw new Error(`No Snipcart order found for invoice ${entry.invoiceNumber}`);
+    }
+
+    const reason = data.reason || 'No reason given';
+
+    switch (type) {
+      case 'package_shipped': {
+        const trackingNumber = data.shipment?.tracking_number?.toString();
+        const trackingUrl = data.shipment?.tracking_url;
+
+        await updateSnipcartOrder(snipcartToken, {
+          status: 'Shipped',
+          trackingNumber,
+          trackingUrl,
+        });
+        await updateFulfillment(entry.invoiceNumber, {
+          snipcartToken,
+          printfulStatus: data.order?.status,
+          trackingNumber,
+          trackingUrl,
+        });
+        break;
+      }
+      case 'order_canceled':
+        await updateSnipcartOrder(snipcartToken, { status: 'Cancelled' });
+        await addSnipcartOrderNotification(snipcartToken, {
+          type: 'Comment',
+          message: `Printful order ${data.order?.id} was cancelled: ${reason}`,
+          deliveryMethod: 'None',
+        });
+        await updateFulfillment(entry.invoiceNumber, { snipcartToken, printfulStatus: 'canceled' });
+        break;
+      case 'order_failed':
+      case 'order_put_hold':
+        // Needs operator attention - keep it off the customer's inbox
+        await updateSnipcartOrder(snipcartToken, { status: 'Pending' });
+        await addSnipcartOrderNotification(snipcartToken, {
+          type: 'Comment',
+          message: `Printful order ${data.order?.id} ${type === 'order_failed' ? 'failed' : 'was put on hold'}: ${reason}`,
+          deliveryMethod: 'None',
+        });
+        await updateFulfillment(entry.invoiceNumber, {
+          snipcartToken,
+          printfulStatus: type === 'order_failed' ? 'failed' : 'onhold',
+        });
+        break;
+    }
+
+    res.status(200).json({ message: 'Done', invoiceNumber: entry.invoiceNumber });
+  } catch (err) {
+    console.error('Printful webhook processing error:', err);
+
+    // A non-2xx response makes Printful retry the delivery later
+    res.status(500).json({ message: 'Something went wrong', invoiceNumber: entry.invoiceNumber });
+  }
+}
+
+/**
+ * Finds the ledger entry for the order a Printful event refers to
+ * @param order - Order summary from the webhook payload
+ * @returns The ledger entry, or undefined for orders this shop did not create
+ */
+async function findOrderEntry(
+  order?: { id: number; external_id?: string | null },
+): Promise<OrderLedgerEntry | undefined> {
+  if (!order) return undefined;
+
+  if (order.external_id) {
+    const entry = await getLedgerEntry(order.external_id);
+    if (entry) return entry;
+  }
+
+  return findLedgerEntryByPrintfulOrderId(order.id);
+}
@@ -0,0 +1,90 @@
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+import type { PrintfulAddress } from '../../../lib/address';
+import { getCountryRule } from '../../../lib/countries';
+import { corsHandler, CORS_CONFIGS } from '../../../lib/cors';
+import { createRateLimiter, RATE_LIMITS } from '../../../lib/rate-limit';
+import { DEFAULT_CURRENCY } from '../../../lib/retail-costs';
+import { quoteShipping, type DatedShippingRate } from '../../../lib/shipping-quote';
+import { safeValidate, ShippingEstimateQuerySchema } from '../../../lib/validation';
+
+type Data = {
+  country: string;
+  currency: string;
+  /** Cheapest first, with delivery dates for an order placed today. */
+  rates: DatedShippingRate[];
+};
+
+type Error = {
+  errors: { key: string; message: string }[];
+};
+
+/**
+ * Shipping estimate for the product page, before anything is in the cart
+ *
+ * GET ?variantId=<external id>&country=BE[&quantity=1][&state=CA][&currency=EUR][&subtotal=25]
+ *
+ * Quotes exactly like the checkout does (Printful rates, fallback table and
+ * shipping rules), but only needs a country. For countries that require a
+ * state and none is given, the first known state is used as a representative.
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse<Data | Error>) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ errors: [{ key: 'method_not_allowed', message: 'Method not allowed' }] });
+  }
+
+  const identifier =
+    (req.headers['x-forwarded-for'] as string) || (req.socket?.remoteAddress as string) || 'unknown';
+  const rateLimiter = createRateLimiter(RATE_LIMITS.API);
+  if (!rateLimiter(identifier).allowed) {
+    res.setHeader('Retry-After', Math.ceil(RATE_LIMITS.API.windowMs / 1000));
+    return res.status(429).json({
+      errors: [{ key: 'rate_limit_exceeded', message: 'Rate limit exceeded. Please try again later.' }],
+    });
+  }
+
+  const query = safeValidate(ShippingEstimateQuerySchema, req.query);
+  if (!query.success) {
+    return res.status(400).json({ errors: [{ key: 'validation_error', message: query.error }] });
+  }
+
+  const { variantId, quantity = 1, country, currency = DEFAULT_CURRENCY, subtotal = 0 } = query.data;
+  const rule = getCountryRule(country);
+  const state = query.data.state?.toUpperCase() ?? (rule?.requiresState ? rule.states?.[0] : undefined);
+
+  if (state && rule?.states && !rule.states.includes(state)) {
+    return res.status(400).json({
+      errors: [{ key: 'invalid_province', message: `"${state}" is not a valid state or province in ${rule.name}` }],
+    });
+  }
+
+  const recipient: PrintfulAddress = { country_code: country, ...(state && { state_code: state }) };
+
+  try {
+    const { rates } = await quoteShipping(
+      recipient,
+      [{ external_variant_id: variantId, quantity }],
+      { currency, subtotal },
+    );
+
+    // Same destination and cart give the same quote, see lib/shipping-rate-cache
+    res.setHeader('Cache-Control', 's-maxage=900, stale-while-revalidate');
+    res.status(200).json({
+      country,
+      currency,
+      rates: [...rates].sort((a, b) => a.cost - b.cost),
+    });
+  } catch (err) {
+    console.error('Shipping estimate error:', err);
+    res.status(502).json({
+      errors: [
+        {
+          key: 'shipping_unavailable',
+          message: err instanceof Error ? err.message : 'Unable to estimate shipping',
+        },
+      ],
+    });
+  }
+}
+
+export default corsHandler(handler, CORS_CONFIGS.PUBLIC);
@@ -1,6 +1,11 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 
-import { printful } from "../../../lib/printful-client";
+import { normalizeAddress, toPrintfulAddress } from "../../../lib/address";
+import { daysUntil, formatDeliveryWindow } from "../../../lib/delivery-dates";
+import { findRestrictedItems, getProductIdFromUrl } from "../../../lib/destination-policy";
+import { DEFAULT_CURRENCY } from "../../../lib/retail-costs";
+import { quoteShipping } from "../../../lib/shipping-quote";
+import { getVerificationFailure, verifySnipcartRequest } from "../../../lib/snipcart-verifier";
 import { validateData, ShippingRateRequestSchema } from "../../../lib/validation";
 import type {
   SnipcartShippingRate,
@@ -29,6 +34,14 @@ export default async function handler(
   req: SnipcartRequest,
   res: NextApiResponse<Data | Error>
 ) {
+  // Only Snipcart may call this endpoint
+  const verification = await verifySnipcartRequest(req);
+  const failure = getVerificationFailure(verification);
+  if (failure)
+    return res.status(failure.status).json({
+      errors: [{ key: verification, message: failure.message }],
+    });
+
   // Validate request body
   const validatedBody = validateData(ShippingRateRequestSchema, req.body);
   const { eventName, content } = validatedBody;
@@ -45,17 +58,45 @@ export default async function handler(
     shippingAddressProvince,
     shippingAddressPostalCode,
     shippingAddressPhone,
+    currency = DEFAULT_CURRENCY,
   } = content;
 
-  const recipient = {
-    ...(shippingAddress1 && { address1: shippingAddress1 }),
-    ...(shippingAddress2 && { address2: shippingAddress2 }),
-    ...(shippingAddressCity && { city: shippingAddressCity }),
-    ...(shippingAddressCountry && { country_code: shippingAddressCountry }),
-    ...(shippingAddressProvince && { state_code: shippingAddressProvince }),
-    ...(shippingAddressPostalCode && { zip: shippingAddressPostalCode }),
-    ...(shippingAddressPhone && { phone: shippingAddressPhone }),
-  };
+  const address = normalizeAddress({
+    address1: shippingAddress1,
+    address2: shippingAddress2,
+    city: shippingAddressCity,
+    country: shippingAddressCountry,
+    province: shippingAddressProvince,
+    postalCode: shippingAddressPostalCode,
+    phone: shippingAddressPhone,
+  });
+
+  if (!address.success)
+    return res.status(200).json({
+      errors: address.errors.map(({ field, message }) => ({
+        key: `invalid_${field}`,
+        message,
+      })),
+    });
+
+  const recipient = toPrintfulAddress(address.address);
+
+  // Products we or Printful cannot ship there; see lib/shipping-config
+  const restricted = findRestrictedItems(
+    recipient.country_code,
+    cartItems.map((item) => ({
+      id: item.id,
+      name: item.name,
+      productId: getProductIdFromUrl(item.url),
+    }))
+  );
+  if (restricted.length > 0)
+    return res.status(200).json({
+      errors: restricted.map(({ message }) => ({
+        key: "destination_not_allowed",
+        message,
+      })),
+    });
 
   const items: PrintfulShippingItem[] = cartItems.map(
     (item: any): PrintfulShippingItem => ({
@@ -65,22 +106,36 @@ export default async function handler(
   );
 
   try {
-    const { result } = await printful.post("shipping/rates", {
+    // Cached Printful rates, fallback table and shipping rules; see lib/shipping-quote
+    const { rates: quotedRates } = await quoteShipping(
       recipient,
       items,
-    });
+      {
+        currency,
+        subtotal:
+          content.itemsTotal ??
+          content.subtotal ??
+          cartItems.reduce((total, item) => total + (item.price ?? 0) * item.quantity, 0),
+      },
+      { recordFallback: true }
+    );
 
     res.status(200).json({
-      rates: result.map((rate: any) => {
+      rates: quotedRates.map((rate) => {
         // Use Printful's rate ID as the unique shipping method identifier
         // This ensures each shipping method has a unique ID that Snipcart can validate
-        const userDefinedId = `RATE_${rate.id}`;
+        const userDefinedId = `RATE_${rate.method}`;
 
+        // Production time, weekends and holidays included; see lib/delivery-dates
         return {
-          cost: rate.rate,
-          description: rate.name,
+          cost: rate.cost,
+          description: rate.delivery
+            ? `${rate.name} (arrives ${formatDeliveryWindow(rate.delivery)})`
+            : rate.name,
           userDefinedId: userDefinedId,
-          guaranteedDaysToDelivery: rate.maxDeliveryDays,
+          guaranteedDaysToDelivery: rate.delivery
+            ? daysUntil(rate.delivery.latest)
+            : rate.maxDeliveryDays,
         };
       }),
     });
@@ -1,8 +1,19 @@
 import type { NextApiRequest, NextApiResponse } from "next";
 
-import { printful } from "../../../lib/printful-client";
+import { normalizeAddress, toPrintfulAddress } from "../../../lib/address";
+import { estimatePrintfulCartCosts } from "../../../lib/printful-orders";
+import { DEFAULT_CURRENCY, extractDiscount } from "../../../lib/retail-costs";
+import { getVerificationFailure, verifySnipcartRequest } from "../../../lib/snipcart-verifier";
 import { validateData, TaxCalculationRequestSchema } from "../../../lib/validation";
-import type { SnipcartTaxItem, PrintfulShippingItem } from "../../../types";
+import {
+  calculateShippingVat,
+  calculateVat,
+  exportPricesExcludeVat,
+  getExportVatDeduction,
+  pricesIncludeVat,
+} from "../../../lib/vat";
+import { getVatNumberField, isReverseCharge, validateVatNumber } from "../../../lib/vat-number";
+import type { SnipcartTaxItem } from "../../../types";
 
 interface SnipcartRequest extends NextApiRequest {
   body: {
@@ -28,6 +39,14 @@ export default async function handler(
 ) {
   // Tax API called
 
+  // Only Snipcart may call this endpoint
+  const verification = await verifySnipcartRequest(req);
+  const failure = getVerificationFailure(verification);
+  if (failure)
+    return res.status(failure.status).json({
+      errors: [{ key: verification, message: failure.message }],
+    });
+
   // Validate request body
   const validatedBody = validateData(TaxCalculationRequestSchema, req.body);
   const { eventName, content } = validatedBody;
@@ -48,6 +67,9 @@ export default async function handler(
     items: cartItems,
     shippingAddress,
     shippingRateUserDefinedId,
+    shippingInformation,
+    customFields,
+    currency = DEFAULT_CURRENCY,
   } = content;
 
   if (!shippingAddress)
@@ -60,82 +82,110 @@ export default async function handler(
       ],
     });
 
-  const { address1, address2, city, country, province, postalCode, phone } =
-    shippingAddress;
-
-  const recipient = {
-    ...(address1 && { address1 }),
-    ...(address2 && { address2 }),
-    ...(city && { city: city }),
-    ...(country && { country_code: country }),
-    ...(province && { state_code: province }),
-    ...(postalCode && { zip: postalCode }),
-    ...(phone && { phone }),
-  };
+  const address = normalizeAddress(shippingAddress);
 
-  const items: PrintfulShippingItem[] = cartItems.map(
-    (item): PrintfulShippingItem => ({
-      external_variant_id: item.id,
-      quantity: item.quantity,
-    })
-  );
+  if (!address.success)
+    return res.status(200).json({
+      errors: address.errors.map(({ field, message }) => ({
+        key: `invalid_${field}`,
+        message,
+      })),
+    });
+
+  // A mistyped VAT number is sent back so the customer can correct it
+  const vatNumberField = getVatNumberField(customFields);
+  const vatNumber = vatNumberField ? validateVatNumber(vatNumberField) : undefined;
+  if (vatNumber && !vatNumber.valid)
+    return res.status(200).json({
+      errors: [
+        {
+          key: "invalid_vat_number",
+          message: vatNumber.error,
+        },
+      ],
+    });
 
   try {
-    const { result } = await printful.post("orders/estimate-costs", {
-      shipping: shippingRateUserDefinedId,
-      recipient,
-      items,
+    const country = address.address.countryCode;
+    const homeCountry = process.env.VAT_HOME_COUNTRY;
+    const lines = cartItems.map((item) => ({
+      price: item.price,
+      quantity: item.quantity,
+      categories: item.categories,
+    }));
+    const includedInPrice = pricesIncludeVat();
+    const discount = extractDiscount(content);
+    const taxes: SnipcartTaxItem[] = [];
+
+    // Rates per country and product category; see lib/vat-rates.json
+    const vat = calculateVat(country, lines, { pricesIncludeVat: includedInPrice, discount });
+    const shippingVat = calculateShippingVat(country, lines, shippingInformation?.fees ?? 0, {
+      pricesIncludeVat: includedInPrice,
+      discount,
     });
 
-              // Calculate VAT based on retail prices, not Printful's wholesale costs
-     // Get the total retail value from cart items
-     const retailSubtotal = cartItems.reduce((total, item) => {
-       return total + (item.price * item.quantity);
-     }, 0);
-     
-     // Retail calculation completed
-     
-     // Determine VAT rate based on country
-     let vatRate = 0;
-     const country = recipient.country_code;
-     
-     // Common EU VAT rates (you may need to adjust based on your business requirements)
-     const vatRates: { [key: string]: number } = {
-       'GB': 20, // UK VAT
-       'BE': 21, // Belgium VAT
-       'DE': 19, // Germany VAT
-       'FR': 20, // France VAT
-       'NL': 21, // Netherlands VAT
-       'IT': 22, // Italy VAT
-       'ES': 21, // Spain VAT
-       // Add more countries as needed
-     };
-     
-     vatRate = country ? (vatRates[country] || 0) : 0;
-     
-     // VAT rate lookup completed
-     
-     if (vatRate > 0) {
-       // Calculate VAT amount based on retail price
-       const vatAmount = (retailSubtotal * vatRate) / 100;
-       
-       // VAT calculation completed
-       
-       res.status(200).json({
-         taxes: [
-           {
-             name: "VAT",
-             amount: Math.round(vatAmount * 100) / 100, // Round to 2 decimal places
-             rate: vatRate,
-           },
-         ],
-       });
-           } else {
-        // No VAT applicable for this country
-        res.status(200).json({
-          taxes: [],
-        });
+    // Intra-EU B2B supply: zero rated, the customer accounts for the VAT
+    const reverseCharge =
+      vatNumber?.valid && homeCountry && isReverseCharge(vatNumber, country, homeCountry) ? vatNumber : undefined;
+    if (vatNumber?.valid && !homeCountry) {
+      console.warn("VAT number given without VAT_HOME_COUNTRY, charging VAT");
+    }
+
+    if (vat && shippingVat && reverseCharge) {
+      taxes.push({ name: `VAT reverse charge (${reverseCharge.vatNumber})`, amount: 0, rate: 0 });
+
+      // Inclusive prices contain the destination VAT, which the customer does not owe
+      const included = includedInPrice ? vat.total + shippingVat.total : 0;
+      if (included > 0) {
+        taxes.push({ name: "VAT deduction (reverse charge)", amount: -Math.round(included * 100) / 100, rate: 0 });
       }
+    } else if (vat && shippingVat) {
+      // Product and shipping VAT are separate lines so invoices and reports
+      // can tell them apart; zero-rated lines add nothing
+      const goodsAmounts = vat.amounts.filter(({ amount }) => amount > 0);
+      const shippingAmounts = shippingVat.amounts.filter(({ amount }) => amount > 0);
+      const label = (rate: number) => (goodsAmounts.length > 1 ? `VAT ${rate}%` : "VAT");
+
+      goodsAmounts.forEach(({ rate, amount }) =>
+        taxes.push({ name: label(rate), amount, rate, includedInPrice, appliesOnShipping: false })
+      );
+      shippingAmounts.forEach(({ rate, amount }) =>
+        taxes.push({ name: `${label(rate)} on shipping`, amount, rate, includedInPrice, appliesOnShipping: true })
+      );
+    } else {
+      // Outside the VAT area, optionally take the VAT out of inclusive prices
+      if (exportPricesExcludeVat()) {
+        const deduction = homeCountry ? getExportVatDeduction(lines, homeCountry, discount) : 0;
+        if (!homeCountry) {
+          console.warn("VAT_EXPORT_PRICES_EXCLUDE_VAT is set without VAT_HOME_COUNTRY, charging listed prices");
+        }
+        if (deduction > 0) {
+          taxes.push({ name: "VAT deduction (export)", amount: -deduction, rate: 0 });
+        }
+      }
+
+      // US sales tax as Printful calculates it; it covers products and shipping
+      if (country === "US") {
+        const costs = await estimatePrintfulCartCosts(
+          toPrintfulAddress(address.address),
+          cartItems.map((item) => ({ external_variant_id: item.id, quantity: item.quantity })),
+          shippingRateUserDefinedId
+        );
+        // There is no exchange rate to convert with, so a foreign amount is not charged
+        if (costs.currency && costs.currency.toUpperCase() !== currency.toUpperCase()) {
+          console.error("Printful estimated sales tax in another currency than the cart, not charging it:", {
+            printful: costs.currency,
+            cart: currency,
+            tax: costs.tax,
+          });
+        } else if (costs.tax > 0) {
+          // Printful returns an amount, not a rate
+          taxes.push({ name: "Sales tax", amount: costs.tax, rate: 0 });
+        }
+      }
+    }
+
+    res.status(200).json({ taxes });
   } catch (err) {
     // Tax API error occurred
     
@@ -1,34 +1,55 @@
 import type { NextApiResponse } from "next";
 
-import createOrderV1 from "../../../lib/create-order-v1";
+import { formatAddressErrors, normalizeAddress } from "../../../lib/address";
+import cancelPrintfulOrder from "../../../lib/cancel-order";
+import { confirmDueDrafts, getFulfillmentMode, getHoldWindowMs } from "../../../lib/confirm-order";
+import { createInvoiceLink, issueInvoice } from "../../../lib/invoices";
+import { createPrintfulOrder } from "../../../lib/printful-orders";
+import {
+  claimOrder,
+  findLedgerEntryBySnipcartToken,
+  flagForReview,
+  markOrderFailed,
+  markOrderSubmitted,
+  recordOrderVat,
+  recordPaymentStatus,
+  recordRefund,
+} from "../../../lib/order-ledger";
+import { describeOrderError, enqueueFailedOrder } from "../../../lib/order-queue";
+import { calculateOrderVat } from "../../../lib/order-vat";
+import { extractOrderTotals } from "../../../lib/retail-costs";
+import { addSnipcartOrderNotification, getSnipcartOrder } from "../../../lib/snipcart-client";
+import { getVerificationFailure, verifySnipcartRequest } from "../../../lib/snipcart-verifier";
+import submitTestOrder, { getTestFulfillmentStrategy, toTestInvoiceNumber } from "../../../lib/test-order";
 import { validateData, SnipcartWebhookRequestSchema } from "../../../lib/validation";
+import { getOrderVatDetails } from "../../../lib/vat-number";
+import { isWebhookReplay, recordWebhookVerification, withWebhookJournal } from "../../../lib/webhook-journal";
 
 import type { SnipcartRequest, SnipcartWebhookEvent } from "../../../types";
 
-export default async function handler(
+// Every delivery is stored in the webhook journal (see lib/webhook-journal)
+export default withWebhookJournal(handler);
+
+async function handler(
   req: SnipcartRequest,
   res: NextApiResponse
 ) {
-  // Add extensive logging at the very beginning
-  console.log('=== WEBHOOK RECEIVED ===');
-  console.log('Method:', req.method);
-  console.log('Headers:', JSON.stringify(req.headers, null, 2));
-  console.log('Body:', JSON.stringify(req.body, null, 2));
-  console.log('=======================');
+  console.log('=== WEBHOOK RECEIVED ===', req.method, req.body?.eventName);
 
   const allowedEvents: SnipcartWebhookEvent[] = [
     "order.completed",
+    "order.status.changed",
+    "order.paymentStatus.changed",
+    "order.refund.created",
     "customauth:customer_updated",
   ];
 
-  const token = req.headers["x-snipcart-requesttoken"];
-
   // Validate request body with error handling
   let validatedBody;
   try {
     console.log('Validating webhook request body...');
     validatedBody = validateData(SnipcartWebhookRequestSchema, req.body);
-    console.log('Validation successful:', JSON.stringify(validatedBody, null, 2));
+    console.log('Validation successful');
   } catch (err) {
     console.error('Validation failed:', err);
     return res.status(400).json({ 
@@ -45,66 +66,33 @@ export default async function handler(
   if (!allowedEvents.includes(eventName))
     return res.status(400).json({ message: "This event is not permitted" });
 
-  // Verify webhook token using Snipcart's Basic Authentication
-  if (!token) {
-    return res.status(401).json({ 
-      message: "Not Authorized - Missing webhook token"
-    });
-  }
-
-  const secretKey = process.env.SNIPCART_SECRET_KEY;
-  if (!secretKey) {
-    return res.status(500).json({ 
-      message: "Server configuration error"
-    });
-  }
-
-  // Enable token verification for production
-  try {
-    console.log('Verifying Snipcart webhook token...');
-    // Create Basic Auth header as per Snipcart documentation
-    const credentials = `${secretKey}:`;
-    const base64Credentials = Buffer.from(credentials).toString('base64');
-    
-    const verifyToken = await fetch(
-      `https://app.snipcart.com/api/requestvalidation/${token}`,
-      {
-        headers: {
-          'Authorization': `Basic ${base64Credentials}`,
-          'Accept': 'application/json'
-        }
-      }
-    );
+  // Replays of journaled deliveries were verified when they first arrived
+  const verification = isWebhookReplay(req) ? "skipped" : await verifySnipcartRequest(req);
+  recordWebhookVerification(req, verification);
 
-    console.log('Token verification response status:', verifyToken.status);
-
-    if (!verifyToken.ok) {
-      console.error('Token verification failed:', verifyToken.status, verifyToken.statusText);
-      return res.status(401).json({ 
-        message: "Not Authorized - Invalid webhook token"
-      });
-    }
-    
-    console.log('Token verification successful');
-  } catch (err) {
-    console.error('Error verifying webhook token:', err);
-    return res.status(500).json({ 
-      message: "Unable to verify Snipcart webhook token"
-    });
+  const failure = getVerificationFailure(verification);
+  if (failure) {
+    return res.status(failure.status).json({ message: failure.message });
   }
 
   try {
     switch (eventName) {
-      case "order.completed":
+      case "order.completed": {
         console.log('Processing order.completed event with v1 API...');
         
+        // Test checkouts must never reach production at Printful
+        const testMode =
+          validatedBody.mode === 'Test' && getTestFulfillmentStrategy() !== 'live';
+        const invoiceNumber = String(content.invoiceNumber || req.body.invoiceNumber || '');
+
         // Extract data from the correct locations in the Snipcart payload
         const orderData = {
-          invoiceNumber: String(content.invoiceNumber || req.body.invoiceNumber || ''),
+          invoiceNumber: testMode && invoiceNumber ? toTestInvoiceNumber(invoiceNumber) : invoiceNumber,
           email: String(content.email || req.body.email || ''),
           shippingAddress: content.shippingAddress,
           items: content.items || [],
           shippingRateUserDefinedId: content.shippingRateUserDefinedId || 'standard',
+          totals: extractOrderTotals(content),
         };
         
         console.log('Extracted order data:', JSON.stringify(orderData, null, 2));
@@ -124,15 +112,215 @@ export default async function handler(
           });
         }
         
+        if (!orderData.invoiceNumber) {
+          return res.status(400).json({ message: "Invoice number is required" });
+        }
+
+        // Snipcart retries deliveries, so only the first one may fulfil the order
+        const { entry, duplicate } = await claimOrder(orderData.invoiceNumber, {
+          email: orderData.email,
+          snipcartToken: typeof content.token === 'string' ? content.token : undefined,
+          // Same reverse-charge decision as the tax endpoint made at checkout
+          ...getOrderVatDetails(
+            Array.isArray(content.customFields) ? content.customFields : undefined,
+            String(content.shippingAddress?.country || ''),
+            process.env.VAT_HOME_COUNTRY
+          ),
+        });
+
+        if (duplicate) {
+          console.warn('Duplicate order.completed delivery for invoice:', {
+            invoiceNumber: entry.invoiceNumber,
+            status: entry.status,
+            printfulOrderId: entry.printfulOrderId,
+            deliveries: entry.deliveries,
+          });
+          return res.status(200).json({
+            message: "Order already processed",
+            duplicate: true,
+            invoiceNumber: entry.invoiceNumber,
+            status: entry.status,
+            printfulOrderId: entry.printfulOrderId,
+          });
+        }
+
+        // Test drafts are never confirmed, so their payment is not tracked
+        if (!testMode && typeof content.paymentStatus === 'string') {
+          await recordPaymentStatus(orderData.invoiceNumber, content.paymentStatus, getHoldWindowMs());
+        }
+
+        // Retrying cannot fix a bad address, so it goes straight to an operator
+        const address = normalizeAddress(orderData.shippingAddress || {}, { requireFullAddress: true });
+        if (!address.success) {
+          const addressError = `Invalid shipping address: ${formatAddressErrors(address.errors)}`;
+          console.error(addressError, { invoiceNumber: orderData.invoiceNumber });
+
+          await markOrderFailed(orderData.invoiceNumber, addressError);
+          await flagForReview(orderData.invoiceNumber, addressError);
+          if (typeof content.token === 'string') {
+            await addSnipcartOrderNotification(content.token, {
+              type: 'Comment',
+              message: `Not sent to Printful. ${addressError}`,
+              deliveryMethod: 'None',
+            });
+          }
+
+          return res.status(200).json({
+            message: "Invalid shipping address",
+            invoiceNumber: orderData.invoiceNumber,
+            errors: address.errors,
+          });
+        }
+
+        // Test orders are not reported and get no invoice, as invoice numbers must
+        // not have gaps. Orders rejected above are not invoiced either.
+        if (!testMode) {
+          try {
+            // VAT as charged at checkout, for the OSS report
+            await recordOrderVat(orderData.invoiceNumber, calculateOrderVat(content, process.env.VAT_HOME_COUNTRY));
+          } catch (vatError) {
+            // The OSS report lists the order as skipped, to be added by hand
+            console.error('Recording order VAT failed:', vatError);
+          }
+
+          try {
+            const issued = await issueInvoice(orderData.invoiceNumber, content);
+            const link = issued?.created ? createInvoiceLink(issued.invoice.number) : undefined;
+            if (link && typeof content.token === 'string') {
+              await addSnipcartOrderNotification(content.token, {
+                type: 'Comment',
+                message: `Your invoice ${issued?.invoice.number} is ready to download: ${link}`,
+                deliveryMethod: 'Email',
+              });
+            }
+          } catch (invoiceError) {
+            // The order is fulfilled regardless; the PDF can be rendered again on download
+            console.error('Invoice generation failed:', invoiceError);
+          }
+        }
+
+        if (testMode) {
+          try {
+            const result = await submitTestOrder(orderData);
+            return res.status(200).json({ message: "Test order recorded", invoiceNumber: orderData.invoiceNumber, ...result });
+          } catch (testError) {
+            console.error('Test-mode order failed:', testError);
+            await markOrderFailed(orderData.invoiceNumber, describeOrderError(testError));
+            return res.status(200).json({
+              message: "Test order failed",
+              invoiceNumber: orderData.invoiceNumber,
+              error: describeOrderError(testError),
+            });
+          }
+        }
+
         try {
-          console.log('Calling createOrderV1...');
-          await createOrderV1(orderData);
-          console.log('createOrderV1 completed successfully');
+          console.log('Calling createPrintfulOrder...');
+          // In draft mode the order waits for confirmation once payment is in
+          const order = await createPrintfulOrder(orderData, {
+            confirm: getFulfillmentMode() === 'immediate',
+          });
+          await markOrderSubmitted(orderData.invoiceNumber, order);
+          console.log('createPrintfulOrder completed successfully');
         } catch (orderError) {
-          console.error('createOrderV1 failed:', orderError);
-          throw orderError;
+          console.error('createPrintfulOrder failed:', orderError);
+
+          // Keep the order durable instead of relying on Snipcart's retries
+          const job = await enqueueFailedOrder(orderData, orderError);
+          return res.status(200).json({
+            message: "Order queued for retry",
+            invoiceNumber: job.invoiceNumber,
+            nextAttemptAt: job.nextAttemptAt,
+          });
+        }
+
+        // Already paid with no hold window: confirm the draft right away
+        if (getFulfillmentMode() === 'draft') {
+          try {
+            await confirmDueDrafts();
+          } catch (confirmError) {
+            // The draft exists; the scheduled process run confirms it later
+            console.error('Confirming due drafts failed:', confirmError);
+          }
         }
         break;
+      }
+      case "order.status.changed":
+      case "order.paymentStatus.changed": {
+        // Same ledger key as order.completed used for the order
+        const testMode =
+          validatedBody.mode === 'Test' && getTestFulfillmentStrategy() !== 'live';
+        const snipcartInvoiceNumber = String(content.invoiceNumber || '');
+        const invoiceNumber = testMode && snipcartInvoiceNumber
+          ? toTestInvoiceNumber(snipcartInvoiceNumber)
+          : snipcartInvoiceNumber;
+        const to = String(validatedBody.to || content.to || '');
+
+        if (invoiceNumber && !testMode && eventName === "order.paymentStatus.changed") {
+          await recordPaymentStatus(invoiceNumber, to, getHoldWindowMs());
+
+          if (to === "Paid") {
+            const confirmed = await confirmDueDrafts();
+            return res.status(200).json({
+              message: confirmed.includes(invoiceNumber)
+                ? "Payment received - Printful order confirmed"
+                : "Payment received",
+            });
+          }
+        }
+
+        const cancelled =
+          eventName === "order.status.changed"
+            ? to === "Cancelled"
+            : to === "Refunded" || to === "Cancelled";
+
+        if (!invoiceNumber || !cancelled) {
+          return res.status(200).json({ message: `Status changed to ${to} - no action taken` });
+        }
+
+        const { outcome, printfulStatus } = await cancelPrintfulOrder(
+          invoiceNumber,
+          `Snipcart ${eventName === "order.status.changed" ? "status" : "payment status"} changed to ${to}`
+        );
+        return res.status(200).json({ message: `Printful order ${outcome}`, printfulStatus });
+      }
+      case "order.refund.created": {
+        const orderToken = String(content.orderToken || '');
+        const amount = Number(content.amount) || 0;
+        const entry = orderToken ? await findLedgerEntryBySnipcartToken(orderToken) : undefined;
+
+        if (!entry) {
+          console.warn('Refund for an order not in the ledger:', { orderToken, amount });
+          return res.status(200).json({ message: "Unknown order - no action taken" });
+        }
+
+        const refundedTotal = await recordRefund(entry.invoiceNumber, {
+          id: typeof content.id === 'string' ? content.id : undefined,
+          amount,
+          comment: typeof content.comment === 'string' ? content.comment : undefined,
+          createdAt: validatedBody.createdOn || new Date().toISOString(),
+        });
+
+        // Snipcart knows about refunds issued before the ledger existed
+        const order = await getSnipcartOrder(orderToken);
+        const fullyRefunded = Math.max(order.refundsAmount ?? 0, refundedTotal) >= order.grandTotal;
+
+        if (!fullyRefunded) {
+          console.warn('Partial refund recorded - Printful order left untouched:', {
+            invoiceNumber: entry.invoiceNumber,
+            amount,
+            refundedTotal,
+            grandTotal: order.grandTotal,
+          });
+          return res.status(200).json({ message: "Partial refund recorded - no action taken" });
+        }
+
+        const { outcome, printfulStatus } = await cancelPrintfulOrder(
+          entry.invoiceNumber,
+          'Order fully refunded in Snipcart'
+        );
+        return res.status(200).json({ message: `Printful order ${outcome}`, printfulStatus });
+      }
       case "customauth:customer_updated":
         return res
           .status(200)
@@ -3,11 +3,9 @@ import { GetStaticProps, GetStaticPaths } from "next";
 import { useRouter } from "next/router";
 import Head from "next/head";
 
-import { printful } from "../../lib/printful-client";
-import { formatVariantName } from "../../lib/format-variant-name";
+import { getCatalogProducts } from "../../lib/catalog-sync";
 import { PrintfulProduct, ProductCategory } from "../../types";
 import { 
-  determineProductCategory, 
   getCategoryBySlug, 
   PRODUCT_CATEGORIES 
 } from "../../lib/category-config";
@@ -163,67 +161,16 @@ export const getStaticProps: GetStaticProps = async ({ params }) => {
       return { notFound: true };
     }
 
-    // Fetch all products (limited for build performance)
-    const { result: productIds } = await printful.get("sync/products");
-    
-    // Limit products to prevent build timeouts
-    const limitedProductIds = productIds.slice(0, 20);
-    
-    const allProducts = await Promise.all(
-      limitedProductIds.map(async ({ id }: { id: string }) => {
-        try {
-          const productData = await printful.get(`sync/products/${id}`);
-          return productData;
-        } catch (error) {
-          console.error(`Error fetching product ${id}:`, error);
-          return null;
-        }
-      })
-    );
-
-    // Process products and filter by category
-    const products: PrintfulProduct[] = allProducts
-      .filter(Boolean) // Remove null results
-      .map(({ result: { sync_product, sync_variants } }) => {
-        // Determine product category
-        const productCategory = determineProductCategory({
-          name: sync_product.name || '',
-          tags: sync_product.tags || [],
-          metadata: sync_product.metadata || {}
-        });
-
+    // Read the whole catalog and filter by category
+    const products: PrintfulProduct[] = (await getCatalogProducts())
+      .filter(product => product.category === category.id)
+      .map(product => ({
+        ...product,
         // Extract description from metadata or use default
-        const description = sync_product.metadata?.description || 
-                          sync_product.metadata?.product_description ||
-                          `Premium quality ${sync_product.name || 'product'} featuring unique designs. Made with care and attention to detail, these pieces are perfect for everyday wear while showcasing your individual style.`;
-
-        return {
-          id: sync_product.id || '',
-          external_id: sync_product.external_id || '',
-          name: sync_product.name || 'Unnamed Product',
-          thumbnail_url: sync_product.thumbnail_url || '',
-          is_ignored: sync_product.is_ignored ?? false,
-          category: productCategory,
-          tags: sync_product.tags || [],
-          metadata: sync_product.metadata || {},
-          description: description,
-          variants: sync_variants.map((variant: any) => ({
-            id: variant.id || 0,
-            external_id: variant.external_id || '',
-            name: formatVariantName(variant.name, variant.options, variant.size, variant.color),
-            retail_price: variant.retail_price || '0',
-            currency: variant.currency || 'USD',
-            files: variant.files || [],
-            options: variant.options || [],
-            size: variant.size || null,
-            color: variant.color || null,
-            is_enabled: variant.is_enabled ?? true,
-            in_stock: variant.in_stock ?? true,
-            is_ignored: variant.is_ignored ?? false,
-          })),
-        };
-      })
-      .filter(product => product.category === category.id); // Filter by category
+        description: product.metadata?.description || 
+                    product.metadata?.product_description ||
+                    product.description,
+      }));
 
     return {
       props: {
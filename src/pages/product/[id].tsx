@@ -2,11 +2,10 @@ import * as React from "react";
 import { GetStaticProps, GetStaticPaths } from "next";
 import { useRouter } from "next/router";
 
-import { printful } from "../../lib/printful-client";
-import { formatVariantName } from "../../lib/format-variant-name";
+import { getCatalogProduct, getCatalogProducts } from "../../lib/catalog-sync";
 import { PrintfulProduct, ProductImage } from "../../types";
-import { determineProductCategory } from "../../lib/category-config";
-import { enhanceProductData, getDefaultDescription } from "../../lib/product-enhancements";
+import { enhanceProductData } from "../../lib/product-enhancements";
+import { pricesIncludeVat } from "../../lib/vat";
 import VariantPicker from "../../components/VariantPicker";
 import ProductVariants from "../../components/ProductVariants";
 import ColorSizeSelector from "../../components/ColorSizeSelector";
@@ -17,6 +16,7 @@ import ProductEnhancements from "../../components/ProductEnhancements";
 import ImageGalleryModal from "../../components/ImageGalleryModal";
 import ProductImageGallery from "../../components/ProductImageGallery";
 import AdditionalViewsGallery from "../../components/AdditionalViewsGallery";
+import ShippingEstimator from "../../components/ShippingEstimator";
 import useWishlistDispatch from "../../hooks/useWishlistDispatch";
 import useWishlistState from "../../hooks/useWishlistState";
 import { useProductGallery } from "../../hooks/useProductGallery";
@@ -351,6 +351,7 @@ const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product }) => {
                   data-item-id={activeVariantExternalId}
                   data-item-price={activeVariant?.retail_price ? parseFloat(activeVariant.retail_price) : 0}
                   data-item-url={`/product/${id}`}
+                  data-item-categories={category || ''}
                   data-item-description={`${name} - ${activeVariant?.color || ''} ${activeVariant?.size || ''}`}
                   data-item-image={activeVariantFile?.preview_url && activeVariantFile.preview_url.trim() !== '' ? activeVariantFile.preview_url : ''}
                   data-item-name={`${name} (${activeVariant?.color || ''} ${activeVariant?.size || ''})`}
@@ -360,10 +361,19 @@ const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product }) => {
                   data-item-custom2-name="Size"
                   disabled={!activeVariant.retail_price}
                 >
-                 {activeVariant.retail_price ? `Add to Cart - €${activeVariant.retail_price}` : 'Unavailable'}
+                 {activeVariant.retail_price ? `Add to Cart - €${activeVariant.retail_price}${pricesIncludeVat() ? ' incl. VAT' : ''}` : 'Unavailable'}
                </button>
              )}
 
+             {/* Shipping estimate for the selected variant */}
+             {activeVariantExternalId && (
+               <ShippingEstimator
+                 variantExternalId={activeVariantExternalId}
+                 productId={id}
+                 price={activeVariant?.retail_price ? parseFloat(activeVariant.retail_price) : 0}
+               />
+             )}
+
                          {/* Back to Products */}
              <div className="pt-4 border-t border-gray-200 dark:border-gray-700">
                <button
@@ -399,6 +409,7 @@ const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product }) => {
                  data-item-id={variant.external_id}
                  data-item-price={variant.retail_price ? parseFloat(variant.retail_price) : 0}
                  data-item-url={`/product/${id}`}
+                 data-item-categories={category || ''}
                  data-item-description={`${name} - ${variant.color || ''} ${variant.size || ''}`}
                  data-item-image={variantFile?.preview_url && variantFile.preview_url.trim() !== '' ? variantFile.preview_url : ''}
                  data-item-name={`${name} (${variant.color || ''} ${variant.size || ''})`}
@@ -417,10 +428,10 @@ const ProductDetailPage: React.FC<ProductDetailPageProps> = ({ product }) => {
 
 export const getStaticPaths: GetStaticPaths = async () => {
   try {
-    const { result: productIds } = await printful.get("sync/products");
+    const products = await getCatalogProducts();
     
-    const paths = productIds.map(({ id }: { id: string }) => ({
-      params: { id: id.toString() },
+    const paths = products.map(({ id }) => ({
+      params: { id },
     }));
 
     return {
@@ -444,61 +455,15 @@ export const getStaticProps: GetStaticProps = async ({ params }) => {
       return { notFound: true };
     }
 
-    const { result: { sync_product, sync_variants } } = await printful.get(`sync/products/${productId}`);
+    const catalogProduct = await getCatalogProduct(productId);
 
-    // Validate the response data
-    if (!sync_product || !sync_variants || !Array.isArray(sync_variants)) {
-      console.error('Invalid product data received from Printful');
+    if (!catalogProduct) {
+      console.error('Product not found in catalog:', productId);
       return { notFound: true };
     }
 
-    // Determine product category based on metadata, tags, and name
-    const productCategory = determineProductCategory({
-      name: sync_product.name || '',
-      tags: sync_product.tags || [],
-      metadata: sync_product.metadata || {}
-    });
-
-    // Create base product object
-    const baseProduct = {
-      id: sync_product.id?.toString() || '',
-      external_id: sync_product.external_id || '',
-      name: sync_product.name || 'Unnamed Product',
-      thumbnail_url: sync_product.thumbnail_url || '',
-      is_ignored: sync_product.is_ignored ?? false,
-      category: productCategory,
-      tags: sync_product.tags || [],
-      metadata: sync_product.metadata || {},
-      description: getDefaultDescription(sync_product.name || 'Product', productCategory),
-      variants: sync_variants
-        .filter((variant: any) => variant && variant.id) // Only include valid variants
-        .map((variant: any) => ({
-          id: variant.id || 0,
-          external_id: variant.external_id || '',
-          name: formatVariantName(variant.name, variant.options, variant.size, variant.color),
-          retail_price: variant.retail_price || '0',
-          currency: variant.currency || 'USD',
-          files: Array.isArray(variant.files) 
-            ? variant.files.filter((file: any) => 
-                file && 
-                file.type === "preview" && // Only include preview images (actual product photos)
-                file.preview_url && 
-                typeof file.preview_url === 'string' && 
-                file.preview_url.trim() !== '' && 
-                file.preview_url.startsWith('http')
-              ) 
-            : [],
-          options: Array.isArray(variant.options) ? variant.options : [],
-          size: variant.size || null,
-          color: variant.color || null,
-          is_enabled: variant.is_enabled ?? true,
-          in_stock: variant.in_stock ?? true,
-          is_ignored: variant.is_ignored ?? false,
-        })),
-    };
-
     // Enhance product with local data
-    const product = enhanceProductData(baseProduct);
+    const product = enhanceProductData(catalogProduct);
 
     // Ensure we have at least one valid variant
     if (product.variants.length === 0) {
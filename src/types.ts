@@ -29,6 +29,28 @@ export type SnipcartWebhookEvent =
   | "taxes.calculate"
   | "customauth:customer_updated";
 
+export type SnipcartOrderStatus =
+  | "InProgress"
+  | "Processed"
+  | "Disputed"
+  | "Shipped"
+  | "Delivered"
+  | "Pending"
+  | "Cancelled";
+
+export type PrintfulWebhookEvent =
+  | "package_shipped"
+  | "package_returned"
+  | "order_created"
+  | "order_updated"
+  | "order_failed"
+  | "order_canceled"
+  | "order_put_hold"
+  | "order_remove_hold"
+  | "product_synced"
+  | "product_updated"
+  | "product_deleted";
+
 export interface SnipcartWebhookContent {
   discounts?: { [key: string]: any };
   items?: Array<{
@@ -37,24 +59,27 @@ export interface SnipcartWebhookContent {
     price: number;
     [key: string]: any;
   }>;
-  shippingAddress?: {
-    fullName?: string;
-    firstName?: string;
-    name?: string;
-    company?: string;
-    address1?: string;
-    address2?: string;
-    fullAddress?: string;
-    city?: string;
-    country?: string;
-    postalCode?: string;
-    province?: string;
-    phone?: string;
-  };
+  shippingAddress?: SnipcartAddress;
   shippingRateUserDefinedId?: string;
   [key: string]: any;
 }
 
+export interface SnipcartAddress {
+  fullName?: string;
+  firstName?: string;
+  lastName?: string;
+  name?: string;
+  company?: string;
+  address1?: string;
+  address2?: string;
+  fullAddress?: string;
+  city?: string;
+  country?: string;
+  postalCode?: string;
+  province?: string;
+  phone?: string;
+}
+
 export type SnipcartShippingRate = {
   /** Shipping method's price. */
   cost: number;
@@ -87,6 +112,9 @@ export interface SnipcartRequest extends NextApiRequest {
     // Add fields that are at the root level for order.completed events
     invoiceNumber?: string;
     email?: string;
+    // Previous and new status for order.status.changed and order.paymentStatus.changed
+    from?: string;
+    to?: string;
   };
 }
 
@@ -136,11 +164,36 @@ export interface PrintfulProduct {
   description?: string;
 }
 
+/** A sync variant as returned by Printful's `sync/products/{id}` and `store/variants/{id}`. */
+export interface PrintfulSyncVariant {
+  id: number;
+  external_id: string;
+  sync_product_id: number;
+  /** Catalog variant ID. */
+  variant_id: number;
+  name?: string;
+  files?: Array<{ type: string; url: string; preview_url?: string }>;
+  /** The catalog product and variant behind the sync variant. */
+  product?: { variant_id: number; product_id: number; name: string };
+  availability_status?: string;
+}
+
 export type PrintfulShippingItem = {
   external_variant_id: string;
   quantity: number;
 };
 
+export type PrintfulShippingRate = {
+  /** Printful shipping method, e.g. `STANDARD`. */
+  id: string;
+  name: string;
+  /** Price as a decimal string in `currency`. */
+  rate: string;
+  currency: string;
+  minDeliveryDays?: number;
+  maxDeliveryDays?: number;
+};
+
 // Category system types
 export interface ProductCategory {
   id: string;
@@ -223,3 +276,149 @@ export interface LightweightProduct {
   }>;
   enhancement?: any;
 }
+
+// Order fulfillment types
+export interface OrderTotals {
+  /** ISO 4217 currency code, upper case. */
+  currency: string;
+  subtotal?: number;
+  discount?: number;
+  shipping?: number;
+  tax?: number;
+  total?: number;
+}
+
+export interface OrderLineItem {
+  /** Sync variant external ID, used as the Snipcart item ID. */
+  id: string;
+  quantity: number;
+  price?: number;
+  name?: string;
+  [key: string]: unknown;
+}
+
+export interface OrderSubmission {
+  invoiceNumber: string;
+  email: string;
+  shippingAddress: SnipcartAddress;
+  items: OrderLineItem[];
+  shippingRateUserDefinedId: string;
+  totals?: OrderTotals;
+}
+
+export interface OrderJob {
+  invoiceNumber: string;
+  order: OrderSubmission;
+  attempts: number;
+  nextAttemptAt: string;
+  /** Last error returned by Printful (or raised while building the order). */
+  lastError: string;
+  /** Set while a run is submitting the job, so overlapping runs skip it. */
+  claimedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DeadLetterOrder extends OrderJob {
+  deadLetteredAt: string;
+}
+
+// Order ledger types
+export type OrderLedgerStatus = "processing" | "submitted" | "queued" | "failed";
+
+export interface OrderLedgerRefund {
+  /** Snipcart refund ID, so a redelivered refund is only counted once. */
+  id?: string;
+  amount: number;
+  comment?: string;
+  createdAt: string;
+}
+
+export interface OrderVatAmount {
+  /** Percentage. */
+  rate: number;
+  /** Goods and shipping taxed at this rate, as priced (VAT included in inclusive mode). */
+  taxable: number;
+  amount: number;
+}
+
+export interface OrderVat {
+  /** Destination country, where the VAT is due. */
+  country: string;
+  currency: string;
+  /** Prices, and so `taxable`, include VAT. */
+  pricesIncludeVat: boolean;
+  /** Intra-EU B2B order: zero rated, the customer accounts for the VAT. */
+  reverseCharge: boolean;
+  /** VAT per rate on goods and shipping, highest rate first. Empty outside the VAT area. */
+  amounts: OrderVatAmount[];
+  /** Amount the customer paid, to pro-rate refunds. */
+  total: number;
+}
+
+export interface OrderLedgerEntry {
+  /** Snipcart invoice number, also sent to Printful as the order `external_id`. */
+  invoiceNumber: string;
+  email: string;
+  /** Snipcart order token, used to push fulfillment updates back to Snipcart. */
+  snipcartToken?: string;
+  status: OrderLedgerStatus;
+  printfulOrderId?: number;
+  printfulStatus?: string;
+  trackingNumber?: string;
+  trackingUrl?: string;
+  /** Set for Snipcart test-mode orders, which never reach production. */
+  testMode?: boolean;
+  /** Business customer's VAT number, from the `vatNumber` checkout field. */
+  vatNumber?: string;
+  /** Reverse-charge mention for the invoice, set when no VAT was charged. */
+  vatMention?: string;
+  /** VAT charged on the order, for the OSS report. */
+  vat?: OrderVat;
+  /** Costs returned by Printful's estimate endpoint for test-mode orders. */
+  estimatedCosts?: Record<string, unknown>;
+  /** Latest Snipcart payment status, e.g. `Paid`. */
+  paymentStatus?: string;
+  /** In draft fulfillment mode, the earliest time the draft may be confirmed. */
+  confirmAfter?: string;
+  confirmedAt?: string;
+  /** Set when a cancellation or refund could not be applied automatically. */
+  reviewRequired?: boolean;
+  reviewReason?: string;
+  refunds?: OrderLedgerRefund[];
+  /** Number of `order.completed` deliveries received for this invoice. */
+  deliveries: number;
+  /** Timestamps of deliveries that were short-circuited as duplicates. */
+  duplicateDeliveries: string[];
+  lastError?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Webhook journal types
+export type WebhookVerificationResult =
+  | "verified"
+  | "missing_token"
+  | "invalid_token"
+  | "replayed"
+  | "error"
+  | "skipped";
+
+export interface WebhookJournalEntry {
+  id: string;
+  receivedAt: string;
+  eventName?: string;
+  invoiceNumber?: string;
+  /** Snipcart `Live` or `Test` mode. */
+  mode?: string;
+  /** Result of the request token check; `skipped` for replays. */
+  verification?: WebhookVerificationResult;
+  statusCode: number;
+  /** Response body returned by the handler. */
+  outcome?: unknown;
+  durationMs: number;
+  /** Request body as received from Snipcart. */
+  body: unknown;
+  /** Journal entry this delivery replayed. */
+  replayOf?: string;
+}